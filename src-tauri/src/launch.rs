@@ -0,0 +1,58 @@
+// Files to open on launch: paths on the command line (`jextile data.json`) and, on macOS,
+// the files the OS hands over through the file association. They are queued here until
+// the UI is ready to take them; the UI is told when more arrive while it is running.
+
+use std::path::{Path, PathBuf};
+use std::sync::Mutex;
+
+use tauri::{AppHandle, Emitter, Manager, State};
+use tauri_plugin_fs::FsExt;
+
+const LAUNCH_FILES_EVENT: &str = "launch-files";
+
+#[derive(Default)]
+pub struct LaunchFiles(Mutex<Vec<String>>);
+
+fn queue(app: &AppHandle, paths: Vec<PathBuf>) {
+    if paths.is_empty() {
+        return;
+    }
+    let state = app.state::<LaunchFiles>();
+    let mut pending = state.0.lock().unwrap();
+    for path in paths {
+        // The UI reads and saves these in place, which the fs scope has to allow first
+        let _ = app.fs_scope().allow_file(&path);
+        pending.push(path.to_string_lossy().into_owned());
+    }
+    drop(pending);
+    let _ = app.emit(LAUNCH_FILES_EVENT, ());
+}
+
+// Relative paths are resolved against the directory the app was started from; flags and
+// anything that is not an existing file are ignored
+fn file_args(args: impl Iterator<Item = String>, cwd: &Path) -> Vec<PathBuf> {
+    args.filter(|arg| !arg.starts_with('-'))
+        .map(|arg| cwd.join(arg))
+        .filter(|path| path.is_file())
+        .collect()
+}
+
+pub fn queue_args(app: &AppHandle) {
+    let cwd = std::env::current_dir().unwrap_or_default();
+    queue(app, file_args(std::env::args().skip(1), &cwd));
+}
+
+#[cfg(any(target_os = "macos", target_os = "ios"))]
+pub fn queue_urls(app: &AppHandle, urls: Vec<tauri::Url>) {
+    let paths = urls
+        .into_iter()
+        .filter_map(|url| url.to_file_path().ok())
+        .filter(|path| path.is_file())
+        .collect();
+    queue(app, paths);
+}
+
+#[tauri::command]
+pub fn take_launch_files(state: State<'_, LaunchFiles>) -> Vec<String> {
+    std::mem::take(&mut *state.0.lock().unwrap())
+}
@@ -1,3 +1,7 @@
+mod launch;
+mod sessions;
+mod watcher;
+
 // Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
 #[tauri::command]
 fn greet(name: &str) -> String {
@@ -10,7 +14,31 @@ pub fn run() {
         .plugin(tauri_plugin_opener::init())
         .plugin(tauri_plugin_dialog::init())
         .plugin(tauri_plugin_fs::init())
-        .invoke_handler(tauri::generate_handler![greet])
-        .run(tauri::generate_context!())
-        .expect("error while running tauri application");
+        // Files opened in an earlier run (recent files) stay readable and writable
+        .plugin(tauri_plugin_persisted_scope::init())
+        .manage(launch::LaunchFiles::default())
+        .manage(watcher::FileWatchers::default())
+        .setup(|app| {
+            launch::queue_args(app.handle());
+            Ok(())
+        })
+        .invoke_handler(tauri::generate_handler![
+            greet,
+            sessions::save_session,
+            sessions::load_sessions,
+            sessions::discard_session,
+            sessions::read_session_origin,
+            launch::take_launch_files,
+            watcher::watch_file,
+            watcher::unwatch_file
+        ])
+        .build(tauri::generate_context!())
+        .expect("error while building tauri application")
+        .run(|_app, _event| {
+            // macOS delivers files opened through the file association as an event, not as arguments
+            #[cfg(any(target_os = "macos", target_os = "ios"))]
+            if let tauri::RunEvent::Opened { urls } = _event {
+                launch::queue_urls(_app, urls);
+            }
+        });
 }
@@ -0,0 +1,109 @@
+// Autosaved editing sessions, kept in the app data directory until the UI discards them.
+// One file per open document; whatever is left over at launch was not closed cleanly.
+// The commands are async so large documents are written off the main thread.
+
+use std::fs;
+use std::path::PathBuf;
+use std::time::UNIX_EPOCH;
+
+use serde::Serialize;
+use tauri::{AppHandle, Manager};
+use tauri_plugin_fs::FsExt;
+
+const SESSIONS_DIR: &str = "sessions";
+
+fn sessions_dir(app: &AppHandle) -> Result<PathBuf, String> {
+    let dir = app
+        .path()
+        .app_data_dir()
+        .map_err(|e| e.to_string())?
+        .join(SESSIONS_DIR);
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+    Ok(dir)
+}
+
+// Session ids come from the UI; only allow plain names so they cannot point outside the directory
+fn session_file(app: &AppHandle, id: &str) -> Result<PathBuf, String> {
+    if id.is_empty() || !id.chars().all(|c| c.is_ascii_alphanumeric() || c == '-') {
+        return Err(format!("Invalid session id: {id}"));
+    }
+    Ok(sessions_dir(app)?.join(format!("{id}.json")))
+}
+
+#[tauri::command]
+pub async fn save_session(app: AppHandle, id: String, contents: String) -> Result<(), String> {
+    let path = session_file(&app, &id)?;
+    // Write next to it first so a crash mid-write never leaves a truncated session
+    let partial = path.with_extension("json.partial");
+    fs::write(&partial, contents).map_err(|e| e.to_string())?;
+    fs::rename(&partial, &path).map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+pub async fn load_sessions(app: AppHandle) -> Result<Vec<String>, String> {
+    let mut sessions = Vec::new();
+    for entry in fs::read_dir(sessions_dir(&app)?).map_err(|e| e.to_string())? {
+        let path = entry.map_err(|e| e.to_string())?.path();
+        if path.extension().and_then(|ext| ext.to_str()) != Some("json") {
+            continue;
+        }
+        match fs::read_to_string(&path) {
+            Ok(contents) => sessions.push(contents),
+            Err(err) => eprintln!("Skipping unreadable session {}: {err}", path.display()),
+        }
+    }
+    Ok(sessions)
+}
+
+#[tauri::command]
+pub fn discard_session(app: AppHandle, id: String) -> Result<(), String> {
+    let path = session_file(&app, &id)?;
+    match fs::remove_file(path) {
+        Err(err) if err.kind() != std::io::ErrorKind::NotFound => Err(err.to_string()),
+        _ => Ok(()),
+    }
+}
+
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct OriginFile {
+    text: String,
+    size: u64,
+    modified: Option<u64>, // Milliseconds since the epoch
+}
+
+// The file a session was editing, as it is on disk now. Session files are written by the UI, so
+// the path in one is only read if the user already granted it (dialog or launch, kept across
+// restarts by the persisted scope); this never widens the scope.
+#[tauri::command]
+pub async fn read_session_origin(app: AppHandle, id: String) -> Result<Option<OriginFile>, String> {
+    let contents = fs::read_to_string(session_file(&app, &id)?).map_err(|e| e.to_string())?;
+    let session: serde_json::Value = serde_json::from_str(&contents).map_err(|e| e.to_string())?;
+    let Some(file_path) = session
+        .pointer("/document/filePath")
+        .and_then(|value| value.as_str())
+    else {
+        return Ok(None);
+    };
+    if !app.fs_scope().is_allowed(file_path) {
+        return Err("access was not granted; open the file again to compare".into());
+    }
+
+    let metadata = match fs::metadata(file_path) {
+        Ok(metadata) => metadata,
+        Err(err) if err.kind() == std::io::ErrorKind::NotFound => return Ok(None),
+        Err(err) => return Err(err.to_string()),
+    };
+    let text = fs::read_to_string(file_path).map_err(|e| e.to_string())?;
+    let modified = metadata
+        .modified()
+        .ok()
+        .and_then(|time| time.duration_since(UNIX_EPOCH).ok())
+        .map(|duration| duration.as_millis() as u64);
+
+    Ok(Some(OriginFile {
+        text,
+        size: metadata.len(),
+        modified,
+    }))
+}
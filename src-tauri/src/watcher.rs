@@ -0,0 +1,64 @@
+// Watches the files open in the UI and tells it when one changes on disk, by document id.
+// The parent directory is watched rather than the file: scripts and editors often replace a file
+// by writing a new one and renaming it over the old, which a watch on the file itself would lose.
+
+use std::collections::HashMap;
+use std::path::PathBuf;
+use std::sync::Mutex;
+
+use notify::{Event, EventKind, RecommendedWatcher, RecursiveMode, Watcher};
+use serde::Serialize;
+use tauri::{AppHandle, Emitter, State};
+
+const FILE_CHANGED_EVENT: &str = "file-changed";
+
+// Dropping a watcher stops it
+#[derive(Default)]
+pub struct FileWatchers(Mutex<HashMap<String, RecommendedWatcher>>);
+
+#[derive(Clone, Serialize)]
+struct FileChanged {
+    id: String,
+}
+
+#[tauri::command]
+pub fn watch_file(
+    app: AppHandle,
+    watchers: State<'_, FileWatchers>,
+    id: String,
+    path: String,
+) -> Result<(), String> {
+    let target = PathBuf::from(&path);
+    let (Some(dir), Some(file_name)) = (target.parent(), target.file_name()) else {
+        return Err(format!("Cannot watch {path}"));
+    };
+    let file_name = file_name.to_os_string();
+
+    let document_id = id.clone();
+    let mut watcher = notify::recommended_watcher(move |result: notify::Result<Event>| {
+        let Ok(event) = result else {
+            return;
+        };
+        // Event paths may be spelled differently from ours (symlinks, case); the directory is only ours
+        let touches_file = event
+            .paths
+            .iter()
+            .any(|changed| changed.file_name() == Some(file_name.as_os_str()));
+        if touches_file && !matches!(event.kind, EventKind::Access(_)) {
+            let _ = app.emit(FILE_CHANGED_EVENT, FileChanged { id: document_id.clone() });
+        }
+    })
+    .map_err(|e| e.to_string())?;
+    watcher
+        .watch(dir, RecursiveMode::NonRecursive)
+        .map_err(|e| e.to_string())?;
+
+    // Replaces any earlier watch for the document, e.g. after Save As
+    watchers.0.lock().unwrap().insert(id, watcher);
+    Ok(())
+}
+
+#[tauri::command]
+pub fn unwatch_file(watchers: State<'_, FileWatchers>, id: String) {
+    watchers.0.lock().unwrap().remove(&id);
+}
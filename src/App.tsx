@@ -1,191 +1,833 @@
-import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import { ParsedFile, JsonObject, JsonValue } from './types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { ParsedFile, JsonObject, JsonValue, JsonPath, OpenDocument, DocumentHistory, DocumentFormat, AttachedSchema, FileStamp, PatchOperation, SearchMode, ViewMode } from './types';
 import FileUpload from './components/FileUpload';
-import JsonGrid from './components/JsonGrid';
+import JsonGrid, { CopyTarget, PatchReview, SchemaValidation } from './components/JsonGrid';
 import JsonModal from './components/JsonModal';
 import HelpModal from './components/HelpModal';
 import SettingsModal from './components/SettingsModal';
-import { AlertCircle, Home, Save, RotateCcw, RotateCw, Settings } from 'lucide-react';
-import { save } from '@tauri-apps/plugin-dialog';
+import ArrayPickerModal from './components/ArrayPickerModal';
+import TabBar from './components/TabBar';
+import DiffModal from './components/DiffModal';
+import CompareMenu from './components/CompareMenu';
+import LoadProgressPanel from './components/LoadProgressPanel';
+import HistoryPanel from './components/HistoryPanel';
+import RecoveryModal from './components/RecoveryModal';
+import RecentFiles from './components/RecentFiles';
+import MergeModal from './components/MergeModal';
+import { ArrayCandidate, findRecordArrays, getAtPath, nearestContainerPath, setAtPath, uniqueKey } from './utils/jsonPath';
+import { createHistory, pushHistory, undoHistory, redoHistory, jumpToHistory, setCheckpoint, markSaved, isDocumentDirty } from './utils/history';
+import { persistHistory, readFileStamp, restoreHistory, sameStamp } from './utils/historyStore';
+import { CHANGE_SETTLE_DELAY, onFileChanged, unwatchFile, watchFile } from './utils/fileWatch';
+import { deepEqual } from './utils/jsonDiff';
+import { onLaunchFiles, takeLaunchFiles } from './utils/launch';
+import { AUTOSAVE_INTERVAL, RecoveredSession, discardSession, loadRecoveredSessions, restoreSession, saveSession } from './utils/sessions';
+import { diffValues, parsePatch, tryPatch } from './utils/jsonPatch';
+import { ParseResult, parseDocumentText, formatFromName, serializeDocument } from './utils/formats';
+import { FileSource, JSON_FILTERS, exportTextFile, saveFiltersFor, stripExtension, LoadedFile, fileNameFromPath, openFileFromDialog, pickFileFromDialog, readFileFromPath } from './utils/files';
+import { LoadInput, LoadProgress, loadInBackground } from './utils/loader';
+import { checkSchema, validateAgainstSchema } from './utils/schema';
+import { RecentFile, useRecentFilesStore } from './store/recentFilesStore';
+import { inferFieldNames } from './utils/schemaInference';
+import { AlertCircle, History, Home, Save, SaveAll, RotateCcw, RotateCw, Settings, X } from 'lucide-react';
+import { save, ask, message } from '@tauri-apps/plugin-dialog';
 import { writeTextFile } from '@tauri-apps/plugin-fs';
+import { getCurrentWindow } from '@tauri-apps/api/window';
 
-const MAX_HISTORY = 50;
+// How a freshly parsed document should be opened
+interface OpenOptions {
+  format: DocumentFormat;
+  // The data does not match what is on disk yet (fixed in the raw editor, or malformed lines were skipped)
+  isRepaired?: boolean;
+  searchTerm?: string; // Restored from the last visit to the file
+}
 
 const App: React.FC = () => {
-  // Split metadata and data to manage history efficiently
-  const [meta, setMeta] = useState<{ name: string, size: number } | null>(null);
-
-  // History State
-  const [history, setHistory] = useState<{
-    past: JsonObject[][];
-    present: JsonObject[] | null;
-    future: JsonObject[][];
-  }>({
-    past: [],
-    present: null,
-    future: []
-  });
+  // Open documents (tabs). Each keeps its own history, navigation path and search term.
+  const [documents, setDocuments] = useState<OpenDocument[]>([]);
+  // null shows the upload screen while keeping the other tabs open
+  const [activeId, setActiveId] = useState<string | null>(null);
 
   const [error, setError] = useState<string | null>(null);
 
+  // File currently being read/parsed in the background
+  const [loading, setLoading] = useState<{
+    name: string;
+    progress: LoadProgress | null;
+    controller: AbortController;
+  } | null>(null);
+
+  // Non-fatal load problems (e.g. skipped JSON Lines), shown above the grid until dismissed
+  const [notice, setNotice] = useState<{ message: string, details: string[] } | null>(null);
+
   // State for raw file editing (fixing invalid JSON)
-  const [rawFileState, setRawFileState] = useState<{ text: string, name: string, size: number } | null>(null);
+  const [rawFileState, setRawFileState] = useState<LoadedFile | null>(null);
 
   // State for help modal
   const [showHelp, setShowHelp] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Envelope documents with several candidate lists wait here until the user picks one
+  const [pendingArrayChoice, setPendingArrayChoice] = useState<{
+    data: JsonObject;
+    source: FileSource;
+    options: OpenOptions;
+    candidates: ArrayCandidate[];
+  } | null>(null);
+
+  // Comparison currently on screen
+  const [diffState, setDiffState] = useState<{
+    before: JsonValue;
+    after: JsonValue;
+    beforeLabel: string;
+    afterLabel: string;
+    initialPath: JsonPath;
+  } | null>(null);
+
+  // Documents autosaved by a previous run that did not close cleanly, waiting for restore or discard
+  const [recoveredSessions, setRecoveredSessions] = useState<RecoveredSession[]>([]);
+
+  // A tab whose file changed on disk while it had unsaved edits, waiting for a merge
+  const [mergeState, setMergeState] = useState<{ docId: string, disk: JsonValue, stamp: FileStamp } | null>(null);
+
+  // A JSON Patch loaded for preview in one tab
+  const [pendingPatch, setPendingPatch] = useState<{ docId: string, name: string, operations: PatchOperation[] } | null>(null);
+
+  const activeDoc = useMemo(() => documents.find(d => d.id === activeId) ?? null, [documents, activeId]);
+
+  // The latest documents, for listeners registered once and for code that resumes after a dialog
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
 
   // Construct the ParsedFile object on the fly from current history state
   const parsedFile: ParsedFile | null = useMemo(() => {
-    if (!meta || !history.present) return null;
+    if (!activeDoc) return null;
     return {
-      name: meta.name,
-      size: meta.size,
-      data: history.present
+      name: activeDoc.name,
+      size: activeDoc.size,
+      data: activeDoc.history.present
     };
-  }, [meta, history.present]);
+  }, [activeDoc]);
 
-  const processJsonData = useCallback((json: any, name: string, size: number) => {
-    let dataToDisplay: JsonObject[] = [];
+  const updateDocument = useCallback((id: string, updater: (doc: OpenDocument) => OpenDocument) => {
+    setDocuments(docs => docs.map(doc => doc.id === id ? updater(doc) : doc));
+  }, []);
 
-    if (Array.isArray(json)) {
-      dataToDisplay = json.filter(item => typeof item === 'object' && item !== null);
-    } else if (typeof json === 'object' && json !== null) {
-      const possibleArray = Object.values(json).find(val => Array.isArray(val) && val.length > 0 && typeof val[0] === 'object');
-      if (possibleArray) {
-        dataToDisplay = possibleArray as JsonObject[];
-      } else {
-        dataToDisplay = [json as JsonObject];
-      }
+  const updateActiveHistory = useCallback((updater: (history: DocumentHistory) => DocumentHistory) => {
+    if (!activeId) return;
+    updateDocument(activeId, doc => ({ ...doc, history: updater(doc.history) }));
+  }, [activeId, updateDocument]);
+
+  const openDocument = useCallback((data: JsonValue, source: FileSource, initialPath: JsonPath, options: OpenOptions) => {
+    const doc: OpenDocument = {
+      id: crypto.randomUUID(),
+      name: source.name,
+      size: source.size,
+      filePath: source.filePath,
+      format: options.format,
+      history: createHistory(data, !options.isRepaired),
+      savedData: options.isRepaired ? undefined : data,
+      fileStamp: null,
+      schema: null,
+      path: initialPath,
+      searchTerm: options.searchTerm ?? '',
+      searchMode: 'text',
+      viewMode: ViewMode.GRID
+    };
+    setDocuments(docs => [...docs, doc]);
+    setActiveId(doc.id);
+    setError(null);
+    if (source.filePath) useRecentFilesStore.getState().recordOpened({ filePath: source.filePath, name: source.name, size: source.size });
+
+    // Pick up the edit history stored for this exact version of the file, unless the user has started editing
+    const filePath = source.filePath;
+    if (!filePath || options.isRepaired) return;
+    (async () => {
+      const fileStamp = await readFileStamp(filePath);
+      const restored = await restoreHistory(filePath, fileStamp, data);
+      setDocuments(docs => docs.map(d => {
+        if (d.id !== doc.id) return d;
+        const untouched = d.history.entries.length === 0 && d.history.present === data;
+        return { ...d, fileStamp, history: restored && untouched ? restored : d.history };
+      }));
+    })().catch(err => console.error('Failed to restore history:', err));
+  }, []);
+
+  const processJsonData = useCallback((json: JsonValue, source: FileSource, options: OpenOptions) => {
+    // Files opened before come back where they were left, if that level still exists
+    const recent = source.filePath ? useRecentFilesStore.getState().files.find(file => file.filePath === source.filePath) : undefined;
+    const lastLevel = recent && getAtPath(json, recent.path);
+    if (recent && typeof lastLevel === 'object' && lastLevel !== null) {
+      openDocument(json, source, recent.path, { ...options, searchTerm: recent.searchTerm });
+      return;
     }
 
-    if (dataToDisplay.length === 0) {
-      setError("The JSON file does not contain a valid list of objects to display.");
+    if (typeof json === 'object' && json !== null && !Array.isArray(json)) {
+      // Keep the whole envelope as the edit model; only decide where the grid opens
+      const candidates = findRecordArrays(json);
+      if (candidates.length > 1) {
+        setPendingArrayChoice({ data: json, source, options, candidates });
+        setError(null);
+        return;
+      }
+      openDocument(json, source, candidates.length === 1 ? candidates[0].path : [], options);
       return;
     }
 
-    // Initialize State
-    setMeta({ name, size });
-    setHistory({
-      past: [],
-      present: dataToDisplay,
-      future: []
-    });
-    setError(null);
-  }, []);
+    // Arrays (of any element type) and primitive roots open as-is
+    openDocument(json, source, [], options);
+  }, [openDocument]);
 
-  const handleFileUpload = useCallback((file: File) => {
+  const handleArrayChoice = useCallback((path: JsonPath) => {
+    if (!pendingArrayChoice) return;
+    openDocument(pendingArrayChoice.data, pendingArrayChoice.source, path, pendingArrayChoice.options);
+    setPendingArrayChoice(null);
+  }, [pendingArrayChoice, openDocument]);
+
+  const handleParsed = useCallback((fileSource: FileSource, parsed: ParseResult) => {
+    const { data, format, lineErrors, imported } = parsed;
+
+    // Imports (CSV/TSV) become new JSON documents; saving must not overwrite the original file
+    const source: FileSource = imported
+      ? { ...fileSource, name: `${stripExtension(fileSource.name)}.json`, filePath: null }
+      : fileSource;
+    processJsonData(data, source, { format, isRepaired: imported || lineErrors.length > 0 });
+
+    if (lineErrors.length > 0) {
+      setNotice({
+        message: `${source.name}: skipped ${lineErrors.length} malformed line${lineErrors.length === 1 ? '' : 's'}. Saving will leave them out.`,
+        details: lineErrors.map(err => `Line ${err.line}: ${err.message}`)
+      });
+    }
+  }, [processJsonData]);
+
+  // Reading and parsing run in the background with progress; the load can be cancelled
+  const loadFile = useCallback(async (input: LoadInput) => {
     setError(null);
     setRawFileState(null);
-    const reader = new FileReader();
 
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      try {
-        const json = JSON.parse(text);
-        processJsonData(json, file.name, file.size);
-      } catch (err) {
+    const controller = new AbortController();
+    const name = 'path' in input ? fileNameFromPath(input.path) : input.file.name;
+    setLoading({ name, progress: null, controller });
+
+    try {
+      const outcome = await loadInBackground(
+        input,
+        progress => setLoading(curr => curr && curr.controller === controller ? { ...curr, progress } : curr),
+        controller.signal
+      );
+      if (!outcome) return; // Cancelled
+
+      if (outcome.kind === 'parsed') {
+        handleParsed(outcome.source, outcome.result);
+      } else {
         // Instead of error, open raw editor
-        setRawFileState({ text, name: file.name, size: file.size });
+        setRawFileState(outcome.file);
       }
+    } catch (err) {
+      console.error('Open failed:', err);
+      setError("Failed to read the file.");
+    } finally {
+      setLoading(curr => curr && curr.controller === controller ? null : curr);
+    }
+  }, [handleParsed]);
+
+  // Files passed on the command line or through the OS file association
+  useEffect(() => {
+    const openLaunchFiles = () => takeLaunchFiles()
+      .then(async paths => {
+        for (const path of paths) await loadFile({ path });
+      })
+      .catch(err => console.error('Failed to open launch files:', err));
+
+    openLaunchFiles();
+    const unlisten = onLaunchFiles(openLaunchFiles);
+    return () => {
+      unlisten.then(fn => fn());
     };
+  }, [loadFile]);
+
+  // Drag-and-drop: the webview hands us a File without a path
+  const handleFileUpload = useCallback((file: File) => {
+    loadFile({ file });
+  }, [loadFile]);
 
-    reader.onerror = () => {
+  // Browse: go through the native dialog so the document knows where it lives
+  const handleBrowse = useCallback(async () => {
+    try {
+      const filePath = await pickFileFromDialog();
+      if (filePath) loadFile({ path: filePath });
+    } catch (err) {
+      console.error('Open failed:', err);
       setError("Failed to read the file.");
-    };
+    }
+  }, [loadFile]);
 
-    reader.readAsText(file);
-  }, [processJsonData]);
+  const removeRecentFile = useRecentFilesStore(state => state.removeFile);
+  const handleOpenRecent = useCallback(async (file: RecentFile) => {
+    const alreadyOpen = documents.find(doc => doc.filePath === file.filePath);
+    if (alreadyOpen) {
+      setActiveId(alreadyOpen.id);
+      return;
+    }
+
+    try {
+      await readFileStamp(file.filePath);
+    } catch (err) {
+      const remove = await ask(`"${file.filePath}" could not be opened. It may have been moved or deleted.\n\nRemove it from the recent files?`, {
+        title: 'Recent Files',
+        kind: 'warning',
+        okLabel: 'Remove',
+        cancelLabel: 'Keep'
+      });
+      if (remove) removeRecentFile(file.filePath);
+      return;
+    }
+    loadFile({ path: file.filePath });
+  }, [documents, loadFile, removeRecentFile]);
+
+  // Remember where each file was left, for the next time it is opened
+  const recordRecentView = useRecentFilesStore(state => state.recordView);
+  useEffect(() => {
+    if (!activeDoc?.filePath) return;
+    recordRecentView(activeDoc.filePath, activeDoc.path, activeDoc.searchTerm);
+  }, [activeDoc?.filePath, activeDoc?.path, activeDoc?.searchTerm, recordRecentView]);
 
   const handleRawSave = useCallback((newData: JsonValue) => {
     if (rawFileState) {
-      processJsonData(newData, rawFileState.name, rawFileState.size);
+      const { text, ...source } = rawFileState;
+      processJsonData(newData, source, { format: 'json', isRepaired: true });
       setRawFileState(null);
     }
   }, [rawFileState, processJsonData]);
 
+  // Show the upload screen; open tabs stay around
   const handleReset = useCallback(() => {
-    setMeta(null);
-    setHistory({ past: [], present: null, future: [] });
+    setActiveId(null);
     setError(null);
     setRawFileState(null);
+    setPendingArrayChoice(null);
   }, []);
 
-  // Update logic: Pushes current state to 'past' before updating 'present'
-  const handleDataUpdate = useCallback((newData: JsonObject[]) => {
-    setHistory(curr => {
-      if (!curr.present) return curr;
+  const handleCloseDocument = useCallback(async (id: string) => {
+    const doc = documentsRef.current.find(d => d.id === id);
+    if (!doc) return;
 
-      const newPast = [...curr.past, curr.present];
-      // Enforce history limit
-      if (newPast.length > MAX_HISTORY) newPast.shift();
+    if (isDocumentDirty(doc)) {
+      const confirmed = await ask(`"${doc.name}" has unsaved changes. Close it anyway?`, {
+        title: 'Unsaved Changes',
+        kind: 'warning',
+        okLabel: 'Discard Changes',
+        cancelLabel: 'Keep Open'
+      });
+      if (!confirmed) return;
+    }
 
-      return {
-        past: newPast,
-        present: newData,
-        future: [] // Clear future on new action
-      };
-    });
+    // Tabs may have changed while the dialog was open; continue from the current state
+    const current = documentsRef.current;
+    const index = current.findIndex(d => d.id === id);
+    if (index < 0) return;
+
+    // The periodic write may not have caught the latest edits yet
+    persistHistory(current[index]).catch(err => console.error('Failed to store history:', err));
+    discardSession(id).catch(err => console.error('Failed to discard autosave:', err));
+
+    setDocuments(docs => docs.filter(d => d.id !== id));
+
+    // Activate the neighbouring tab, like a browser
+    const remaining = current.filter(d => d.id !== id);
+    const neighbour = remaining[Math.min(index, remaining.length - 1)];
+    setActiveId(curr => curr === id ? (neighbour ? neighbour.id : null) : curr);
   }, []);
 
+  const handleDataUpdate = useCallback((newData: JsonValue, description?: string) => {
+    updateActiveHistory(curr => pushHistory(curr, newData, description));
+  }, [updateActiveHistory]);
+
   const undo = useCallback(() => {
-    setHistory(curr => {
-      if (curr.past.length === 0) return curr;
-      const previous = curr.past[curr.past.length - 1];
-      const newPast = curr.past.slice(0, -1);
+    updateActiveHistory(undoHistory);
+  }, [updateActiveHistory]);
 
-      return {
-        past: newPast,
-        present: previous,
-        future: [curr.present!, ...curr.future]
-      };
+  const redo = useCallback(() => {
+    updateActiveHistory(redoHistory);
+  }, [updateActiveHistory]);
+
+  const handleHistoryJump = useCallback((index: number) => {
+    updateActiveHistory(curr => jumpToHistory(curr, index));
+  }, [updateActiveHistory]);
+
+  const handleCheckpoint = useCallback((entryId: string, name: string | null) => {
+    updateActiveHistory(curr => setCheckpoint(curr, entryId, name));
+  }, [updateActiveHistory]);
+
+  const handlePathChange = useCallback((path: JsonPath) => {
+    if (!activeId) return;
+    updateDocument(activeId, doc => ({ ...doc, path }));
+  }, [activeId, updateDocument]);
+
+  const handleSearchChange = useCallback((searchTerm: string) => {
+    if (!activeId) return;
+    updateDocument(activeId, doc => ({ ...doc, searchTerm }));
+  }, [activeId, updateDocument]);
+
+  const handleSearchModeChange = useCallback((searchMode: SearchMode) => {
+    if (!activeId) return;
+    updateDocument(activeId, doc => ({ ...doc, searchMode }));
+  }, [activeId, updateDocument]);
+
+  const handleViewModeChange = useCallback((viewMode: ViewMode) => {
+    if (!activeId) return;
+    updateDocument(activeId, doc => ({ ...doc, viewMode }));
+  }, [activeId, updateDocument]);
+
+  // Other tabs whose current level can receive cards
+  const copyTargets: CopyTarget[] = useMemo(() => {
+    return documents
+      .filter(doc => doc.id !== activeId)
+      .filter(doc => {
+        const level = getAtPath(doc.history.present, doc.path);
+        return typeof level === 'object' && level !== null;
+      })
+      .map(doc => ({ id: doc.id, name: doc.name }));
+  }, [documents, activeId]);
+
+  // Cross-tab copy: cards land at the target tab's current level as a single undoable step there
+  const handleCopyToDocument = useCallback((targetId: string, items: { name: string | number, value: JsonValue }[]) => {
+    updateDocument(targetId, doc => {
+      const level = getAtPath(doc.history.present, doc.path);
+      if (typeof level !== 'object' || level === null) return doc;
+
+      let newLevel: JsonValue;
+      if (Array.isArray(level)) {
+        newLevel = [...level, ...items.map(item => item.value)];
+      } else {
+        const newObj: JsonObject = { ...level };
+        items.forEach(item => {
+          newObj[uniqueKey(newObj, String(item.name))] = item.value;
+        });
+        newLevel = newObj;
+      }
+
+      const description = `Copied ${items.length} item${items.length === 1 ? '' : 's'} from ${activeDoc?.name ?? 'another tab'}`;
+      return { ...doc, history: pushHistory(doc.history, setAtPath(doc.history.present, doc.path, newLevel), description) };
     });
+  }, [activeDoc, updateDocument]);
+
+  // Save: write back to the file the document came from; Save As (or a document without a path) asks first
+  const handleSave = useCallback(async (saveAs: boolean) => {
+    if (!activeDoc) return;
+    const { id, name, history, filePath, format } = activeDoc;
+
+    try {
+      // Invalid documents can still be saved (work in progress), but not silently
+      const schemaErrors = activeDoc.schema ? validateAgainstSchema(activeDoc.schema.schema, history.present) : [];
+      if (schemaErrors.length > 0) {
+        const errorCount = `${schemaErrors.length} error${schemaErrors.length === 1 ? '' : 's'}`;
+        const proceed = await ask(`"${name}" does not match ${activeDoc.schema!.name} (${errorCount}). Save anyway?`, {
+          title: 'Schema Validation',
+          kind: 'warning',
+          okLabel: 'Save Anyway',
+          cancelLabel: 'Cancel'
+        });
+        if (!proceed) return;
+      }
+
+      let targetPath = saveAs ? null : filePath;
+
+      if (!targetPath) {
+        // Open Native Save Dialog
+        // Returns the selected path (string) or null if canceled
+        targetPath = await save({
+          defaultPath: filePath || name || 'data.json',
+          filters: saveFiltersFor(format)
+        });
+
+        if (!targetPath) return; // User canceled
+      }
+
+      // Save As can switch formats through the chosen extension
+      const targetFormat = formatFromName(targetPath) ?? format;
+
+      // Write content to the path
+      // Works because open()/save() whitelist the chosen paths for the current session
+      await writeTextFile(targetPath, serializeDocument(history.present, targetFormat));
+
+      // The written state is now the clean baseline for this tab
+      const savedPath = targetPath;
+      const fileStamp = await readFileStamp(savedPath).catch(() => null);
+      updateDocument(id, doc => ({
+        ...doc,
+        savedData: history.present,
+        // Edits made while writing stay unsaved
+        history: doc.history.present === history.present ? markSaved(doc.history) : { ...doc.history, savedIndex: null },
+        fileStamp,
+        filePath: savedPath,
+        format: targetFormat,
+        name: fileNameFromPath(savedPath)
+      }));
+      useRecentFilesStore.getState().recordOpened({ filePath: savedPath, name: fileNameFromPath(savedPath), size: fileStamp?.size ?? activeDoc.size });
+
+    } catch (err) {
+      console.error('Save failed:', err);
+    }
+  }, [activeDoc, updateDocument]);
+
+  // The document as it was last saved, for comparing against. Tells the user and returns undefined if there is none.
+  const loadBaseline = useCallback(async (doc: OpenDocument, title: string): Promise<JsonValue | undefined> => {
+    if (doc.savedData !== undefined) return doc.savedData;
+
+    // Repaired documents have no matching in-memory baseline; fall back to the file itself
+    if (doc.filePath) {
+      try {
+        const onDisk = await readFileFromPath(doc.filePath);
+        return parseDocumentText(onDisk.text, onDisk.name).data;
+      } catch (err) {
+        await message('The file on disk is not valid JSON, so there is nothing to compare against.', { title, kind: 'error' });
+        return undefined;
+      }
+    }
+    await message('This document has not been saved yet.', { title, kind: 'info' });
+    return undefined;
   }, []);
 
-  const redo = useCallback(() => {
-    setHistory(curr => {
-      if (curr.future.length === 0) return curr;
-      const next = curr.future[0];
-      const newFuture = curr.future.slice(1);
+  // Present state vs. what is on disk
+  const handleCompareSaved = useCallback(async () => {
+    if (!activeDoc) return;
+    const baseline = await loadBaseline(activeDoc, 'Compare');
+    if (baseline === undefined) return;
 
-      return {
-        past: [...curr.past, curr.present!],
-        present: next,
-        future: newFuture
-      };
+    setDiffState({
+      before: baseline,
+      after: activeDoc.history.present,
+      beforeLabel: `${activeDoc.name} (saved)`,
+      afterLabel: `${activeDoc.name} (current)`,
+      initialPath: activeDoc.path
     });
-  }, []);
+  }, [activeDoc, loadBaseline]);
 
-  const handleDownload = useCallback(async () => {
-    if (!parsedFile) return;
+  // Everything changed since the last save, as an RFC 6902 patch file
+  const handleExportPatch = useCallback(async () => {
+    if (!activeDoc) return;
+    const baseline = await loadBaseline(activeDoc, 'Export Patch');
+    if (baseline === undefined) return;
 
+    const { patch } = diffValues(baseline, activeDoc.history.present);
+    if (patch.length === 0) {
+      await message('There are no changes since the last save.', { title: 'Export Patch', kind: 'info' });
+      return;
+    }
     try {
-      // 1. Open Native Save Dialog
-      // Returns the selected path (string) or null if canceled
-      const filePath = await save({
-        defaultPath: parsedFile.name || 'data.json',
-        filters: [{
-          name: 'JSON File',
-          extensions: ['json']
-        }]
+      await exportTextFile(`${stripExtension(activeDoc.name)}.patch.json`, JSON_FILTERS, JSON.stringify(patch, null, 2));
+    } catch (err: any) {
+      console.error('Export patch failed:', err);
+      await message(`Could not write the patch.\n\n${err?.message ?? err}`, { title: 'Export Patch', kind: 'error' });
+    }
+  }, [activeDoc, loadBaseline]);
+
+  // Load a patch for preview; it is applied from the panel in the grid
+  const handleLoadPatch = useCallback(async () => {
+    if (!activeDoc) return;
+    const docId = activeDoc.id;
+    try {
+      const loaded = await openFileFromDialog(JSON_FILTERS);
+      if (!loaded) return;
+      setPendingPatch({ docId, name: loaded.name, operations: parsePatch(loaded.text) });
+    } catch (err: any) {
+      console.error('Load patch failed:', err);
+      await message(`Could not use that file as a JSON Patch (RFC 6902).\n\n${err?.message ?? err}`, { title: 'Apply Patch', kind: 'error' });
+    }
+  }, [activeDoc]);
+
+  // Re-run against the current state, so edits made while previewing are taken into account
+  const patchReview: PatchReview | null = useMemo(() => {
+    if (!pendingPatch || !activeDoc || pendingPatch.docId !== activeDoc.id) return null;
+    return {
+      name: pendingPatch.name,
+      operations: pendingPatch.operations,
+      outcome: tryPatch(activeDoc.history.present, pendingPatch.operations)
+    };
+  }, [pendingPatch, activeDoc?.id, activeDoc?.history.present]);
+
+  const handleApplyPatch = useCallback(() => {
+    if (!patchReview?.outcome.data) return;
+    handleDataUpdate(patchReview.outcome.data, `Applied patch ${patchReview.name}`);
+    setPendingPatch(null);
+  }, [patchReview, handleDataUpdate]);
+
+  const handleCompareDocument = useCallback((otherId: string) => {
+    const other = documents.find(doc => doc.id === otherId);
+    if (!activeDoc || !other) return;
+    setDiffState({
+      before: activeDoc.history.present,
+      after: other.history.present,
+      beforeLabel: activeDoc.name,
+      afterLabel: other.name,
+      initialPath: activeDoc.path
+    });
+  }, [activeDoc, documents]);
+
+  const handleCompareFile = useCallback(async () => {
+    if (!activeDoc) return;
+    try {
+      const loaded = await openFileFromDialog();
+      if (!loaded) return;
+      setDiffState({
+        before: activeDoc.history.present,
+        after: parseDocumentText(loaded.text, loaded.name).data,
+        beforeLabel: activeDoc.name,
+        afterLabel: loaded.name,
+        initialPath: activeDoc.path
+      });
+    } catch (err) {
+      console.error('Compare failed:', err);
+      await message('Could not read that file as JSON.', { title: 'Compare', kind: 'error' });
+    }
+  }, [activeDoc]);
+
+  // Schemas are attached per tab and only kept in memory
+  const handleAttachSchema = useCallback(async () => {
+    if (!activeDoc) return;
+    const docId = activeDoc.id;
+    try {
+      const loaded = await openFileFromDialog(JSON_FILTERS);
+      if (!loaded) return;
+      const attached: AttachedSchema = { name: loaded.name, schema: checkSchema(JSON.parse(loaded.text)) };
+      updateDocument(docId, doc => ({ ...doc, schema: attached }));
+    } catch (err: any) {
+      console.error('Attach schema failed:', err);
+      await message(`Could not use that file as a JSON Schema (draft 2020-12).\n\n${err?.message ?? err}`, { title: 'Attach Schema', kind: 'error' });
+    }
+  }, [activeDoc, updateDocument]);
+
+  const handleDetachSchema = useCallback(() => {
+    if (!activeId) return;
+    updateDocument(activeId, doc => ({ ...doc, schema: null }));
+  }, [activeId, updateDocument]);
+
+  // Re-validated whenever the active document changes
+  const schemaValidation: SchemaValidation | null = useMemo(() => {
+    if (!activeDoc?.schema) return null;
+    return {
+      schemaName: activeDoc.schema.name,
+      errors: validateAgainstSchema(activeDoc.schema.schema, activeDoc.history.present)
+    };
+  }, [activeDoc?.schema, activeDoc?.history.present]);
+
+  // Title/subtitle field autocomplete, from the records the user is looking at
+  const fieldSuggestions = useMemo(() => {
+    if (!showSettings || !activeDoc) return [];
+    return inferFieldNames(getAtPath(activeDoc.history.present, activeDoc.path) ?? null);
+  }, [showSettings, activeDoc]);
+
+  const activeIsDirty = !!activeDoc && isDocumentDirty(activeDoc);
+
+  // Window title mirrors the active tab, with a marker for unsaved changes
+  useEffect(() => {
+    const title = activeDoc ? `${activeIsDirty ? '● ' : ''}${activeDoc.name} — JExTile` : 'JExTile';
+    document.title = title;
+    getCurrentWindow().setTitle(title).catch(err => console.error('Failed to set title:', err));
+  }, [activeDoc?.name, activeIsDirty]);
+
+  // Confirm before the window closes with unsaved tabs
+
+  useEffect(() => {
+    const unlisten = getCurrentWindow().onCloseRequested(async (event) => {
+      const dirtyDocs = documentsRef.current.filter(isDocumentDirty);
+      if (dirtyDocs.length > 0) {
+        const names = dirtyDocs.map(doc => doc.name).join(', ');
+        const confirmed = await ask(`Unsaved changes in: ${names}. Quit anyway?`, {
+          title: 'Unsaved Changes',
+          kind: 'warning',
+          okLabel: 'Discard and Quit',
+          cancelLabel: 'Cancel'
+        });
+        if (!confirmed) {
+          event.preventDefault();
+          return;
+        }
+      }
+
+      // A clean exit leaves nothing to recover
+      await Promise.all(documentsRef.current.map(doc => discardSession(doc.id)))
+        .catch(err => console.error('Failed to discard autosave:', err));
+    });
+
+    return () => {
+      unlisten.then(fn => fn());
+    };
+  }, []);
+
+  // Keep each file's edit history on disk, a moment after it last changed
+  const persistedRef = useRef(new Map<string, OpenDocument>());
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      documents.forEach(doc => {
+        const last = persistedRef.current.get(doc.id);
+        if (last && last.history === doc.history && last.fileStamp === doc.fileStamp) return;
+        persistedRef.current.set(doc.id, doc);
+        persistHistory(doc).catch(err => console.error('Failed to store history:', err));
+      });
+    }, 1000);
+    return () => window.clearTimeout(timer);
+  }, [documents]);
+
+  // Offer what the last run left behind
+  useEffect(() => {
+    loadRecoveredSessions()
+      .then(setRecoveredSessions)
+      .catch(err => console.error('Failed to load autosaved sessions:', err));
+  }, []);
+
+  const handleRestoreSession = useCallback((session: RecoveredSession) => {
+    const doc = restoreSession(session);
+    // Autosave only drops sessions it wrote itself; a clean document has nothing left to recover
+    if (!isDocumentDirty(doc)) discardSession(doc.id).catch(err => console.error('Failed to discard autosave:', err));
+    setDocuments(docs => [...docs, doc]);
+    setActiveId(doc.id);
+    setRecoveredSessions(sessions => sessions.filter(s => s !== session));
+  }, []);
+
+  const handleDiscardSession = useCallback((session: RecoveredSession) => {
+    discardSession(session.document.id).catch(err => console.error('Failed to discard autosave:', err));
+    setRecoveredSessions(sessions => sessions.filter(s => s !== session));
+  }, []);
+
+  const handleShowRecoveredChanges = useCallback((session: RecoveredSession) => {
+    if (!session.origin) return;
+    setDiffState({
+      before: session.origin.data,
+      after: session.document.history.present,
+      beforeLabel: `${session.document.name} (on disk)`,
+      afterLabel: `${session.document.name} (recovered)`,
+      initialPath: session.document.path
+    });
+  }, []);
+
+  // Autosave: documents with unsaved changes are written out periodically; clean and closed ones are dropped
+  const autosavedRef = useRef(new Map<string, OpenDocument>());
+  useEffect(() => {
+    const timer = window.setInterval(() => {
+      const autosaved = autosavedRef.current;
+      const openIds = new Set<string>();
+
+      documentsRef.current.forEach(doc => {
+        openIds.add(doc.id);
+        if (isDocumentDirty(doc)) {
+          if (autosaved.get(doc.id) === doc) return;
+          autosaved.set(doc.id, doc);
+          saveSession(doc).catch(err => console.error('Autosave failed:', err));
+        } else if (autosaved.delete(doc.id)) {
+          discardSession(doc.id).catch(err => console.error('Failed to discard autosave:', err));
+        }
       });
 
-      if (!filePath) return; // User canceled
+      Array.from(autosaved.keys()).filter(id => !openIds.has(id)).forEach(id => autosaved.delete(id));
+    }, AUTOSAVE_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Watch the file behind each tab; closing the tab or saving it elsewhere moves the watch
+  const watchedRef = useRef(new Map<string, string>());
+  useEffect(() => {
+    const watched = watchedRef.current;
+    const wanted = new Map(documents.flatMap(doc => doc.filePath ? [[doc.id, doc.filePath] as const] : []));
+
+    watched.forEach((filePath, id) => {
+      if (wanted.get(id) === filePath) return;
+      watched.delete(id);
+      unwatchFile(id).catch(err => console.error('Failed to stop watching:', err));
+    });
+    wanted.forEach((filePath, id) => {
+      if (watched.has(id)) return;
+      watched.set(id, filePath);
+      watchFile(id, filePath).catch(err => console.error('Failed to watch file:', err));
+    });
+  }, [documents]);
 
-      // 2. Write content to the selected path
-      // Works because save() whitelists this path for the current session
-      const jsonString = JSON.stringify(parsedFile.data, null, 2);
-      await writeTextFile(filePath, jsonString);
+  // The file on disk is now `disk`; the tab continues with `data`, which is clean only if it matches the file
+  const adoptDiskVersion = useCallback((id: string, data: JsonValue, disk: JsonValue, stamp: FileStamp, description: string) => {
+    updateDocument(id, doc => {
+      const history = pushHistory(doc.history, data, description);
+      return {
+        ...doc,
+        savedData: disk,
+        fileStamp: stamp,
+        history: deepEqual(history.present, disk) ? markSaved(history) : { ...history, savedIndex: null },
+        path: nearestContainerPath(history.present, doc.path)
+      };
+    });
+  }, [updateDocument]);
+
+  const handleExternalChange = useCallback(async (id: string) => {
+    const doc = documentsRef.current.find(d => d.id === id);
+    if (!doc?.filePath) return;
+    const filePath = doc.filePath;
 
+    let stamp: FileStamp;
+    let disk: JsonValue;
+    try {
+      stamp = await readFileStamp(filePath);
+      // Our own saves, and events that did not change the file
+      if (sameStamp(stamp, doc.fileStamp)) return;
+      const onDisk = await readFileFromPath(filePath);
+      disk = parseDocumentText(onDisk.text, onDisk.name).data;
     } catch (err) {
-      console.error('Export failed:', err);
+      // Deleted, or read halfway through a write; the next event tries again
+      console.warn('Skipped an external change:', err);
+      return;
+    }
+
+    const current = documentsRef.current.find(d => d.id === id);
+    if (!current || current.filePath !== filePath) return;
+
+    // Touched or rewritten as it was: only the stamp moves, so undoing back to the saved state still reads as clean
+    if (deepEqual(disk, current.savedData)) {
+      updateDocument(id, doc => ({ ...doc, fileStamp: stamp }));
+      return;
+    }
+    if (!isDocumentDirty(current)) {
+      // Nothing to lose: take the file as it is now, staying at the same level
+      adoptDiskVersion(id, disk, disk, stamp, 'Reloaded from disk');
+      return;
     }
-  }, [parsedFile]);
+    setMergeState({ docId: id, disk, stamp });
+  }, [adoptDiskVersion, updateDocument]);
+
+  // A write arrives as several events; act once it has settled
+  useEffect(() => {
+    const timers = new Map<string, number>();
+    const unlisten = onFileChanged(id => {
+      window.clearTimeout(timers.get(id));
+      timers.set(id, window.setTimeout(() => {
+        timers.delete(id);
+        handleExternalChange(id);
+      }, CHANGE_SETTLE_DELAY));
+    });
+    return () => {
+      timers.forEach(timer => window.clearTimeout(timer));
+      unlisten.then(fn => fn());
+    };
+  }, [handleExternalChange]);
+
+  const mergeDoc = mergeState ? documents.find(doc => doc.id === mergeState.docId) ?? null : null;
+
+  const handleMergeApply = useCallback((merged: JsonValue) => {
+    if (!mergeState) return;
+    adoptDiskVersion(mergeState.docId, merged, mergeState.disk, mergeState.stamp, 'Merged changes from disk');
+    setMergeState(null);
+  }, [mergeState, adoptDiskVersion]);
+
+  // The disk version counts as seen; saving will overwrite it with the tab's state
+  const handleMergeKeepMine = useCallback(() => {
+    if (!mergeState || !mergeDoc) return;
+    adoptDiskVersion(mergeState.docId, mergeDoc.history.present, mergeState.disk, mergeState.stamp, 'Kept local changes');
+    setMergeState(null);
+  }, [mergeState, mergeDoc, adoptDiskVersion]);
 
   // Global Keyboard Shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Export: Ctrl+S or Cmd+S
+      // Save: Ctrl+S or Cmd+S, Save As: Ctrl+Shift+S or Cmd+Shift+S
       if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
         e.preventDefault();
         // Check if modal is present by looking for its ID.
@@ -193,7 +835,7 @@ const App: React.FC = () => {
         if (document.getElementById('json-modal-root')) {
           return;
         }
-        handleDownload();
+        handleSave(e.shiftKey);
         return;
       }
 
@@ -221,10 +863,10 @@ const App: React.FC = () => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [undo, redo, handleDownload]);
+  }, [undo, redo, handleSave]);
 
-  const canUndo = history.past.length > 0;
-  const canRedo = history.future.length > 0;
+  const canUndo = !!activeDoc && activeDoc.history.index > 0;
+  const canRedo = !!activeDoc && activeDoc.history.index < activeDoc.history.entries.length;
 
   // Ctrl+Scroll font-size scaling
   useEffect(() => {
@@ -261,7 +903,7 @@ const App: React.FC = () => {
             <button
               onClick={handleReset}
               className="flex items-center gap-3 hover:opacity-80 transition-opacity focus:outline-none group"
-              aria-label="Return to upload screen"
+              aria-label="Open another file"
             >
               <div className="p-2 bg-accent/10 rounded-lg group-hover:bg-accent/20 transition-colors">
                 <Home className="w-5 h-5 text-accent" />
@@ -292,8 +934,25 @@ const App: React.FC = () => {
                 >
                   <RotateCw className="w-4 h-4" />
                 </button>
+                <div className="w-px h-4 bg-subtle mx-1"></div>
+                <button
+                  onClick={() => setShowHistory(prev => !prev)}
+                  className={`p-1.5 rounded-md transition-all ${showHistory ? 'text-accent bg-accent/10' : 'text-text-muted hover:text-white hover:bg-white/10'}`}
+                  title="History"
+                >
+                  <History className="w-4 h-4" />
+                </button>
               </div>
 
+              <CompareMenu
+                otherDocuments={documents.filter(doc => doc.id !== activeId).map(doc => ({ id: doc.id, name: doc.name }))}
+                onCompareSaved={handleCompareSaved}
+                onCompareDocument={handleCompareDocument}
+                onCompareFile={handleCompareFile}
+                onExportPatch={handleExportPatch}
+                onApplyPatch={handleLoadPatch}
+              />
+
               <button
                 onClick={() => setShowHelp(true)}
                 className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-text-main hover:text-accent hover:bg-surface rounded-lg transition-all border border-transparent hover:border-subtle"
@@ -304,11 +963,19 @@ const App: React.FC = () => {
               </button>
 
               <button
-                onClick={handleDownload}
-                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-text-main hover:text-accent hover:bg-surface rounded-lg transition-all border border-transparent hover:border-subtle"
-                title="Save to Disk (Ctrl+S)"
+                onClick={() => handleSave(false)}
+                className="relative flex items-center gap-2 px-3 py-2 text-sm font-medium text-text-main hover:text-accent hover:bg-surface rounded-lg transition-all border border-transparent hover:border-subtle"
+                title={activeIsDirty ? 'Save to Disk (Ctrl+S) - unsaved changes' : 'Save to Disk (Ctrl+S)'}
               >
                 <Save className="w-4 h-4" />
+                {activeIsDirty && <span className="absolute top-1.5 right-1.5 w-1.5 h-1.5 rounded-full bg-accent" />}
+              </button>
+              <button
+                onClick={() => handleSave(true)}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-text-main hover:text-accent hover:bg-surface rounded-lg transition-all border border-transparent hover:border-subtle"
+                title="Save As (Ctrl+Shift+S)"
+              >
+                <SaveAll className="w-4 h-4" />
               </button>
               <button
                 onClick={() => setShowSettings(true)}
@@ -320,6 +987,16 @@ const App: React.FC = () => {
             </div>
           )}
         </div>
+
+        {documents.length > 0 && (
+          <TabBar
+            documents={documents}
+            activeId={activeId}
+            onSelect={setActiveId}
+            onClose={handleCloseDocument}
+            onNew={handleReset}
+          />
+        )}
       </header>
 
       {/* Main Content */}
@@ -329,7 +1006,18 @@ const App: React.FC = () => {
             <div className="text-center mb-10">
             </div>
 
-            <FileUpload onFileSelect={handleFileUpload} />
+            {loading ? (
+              <LoadProgressPanel
+                name={loading.name}
+                progress={loading.progress}
+                onCancel={() => {
+                  loading.controller.abort();
+                  setLoading(null);
+                }}
+              />
+            ) : (
+              <FileUpload onFileSelect={handleFileUpload} onBrowse={handleBrowse} />
+            )}
 
             {error && (
               <div className="mt-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl flex items-start gap-3 text-red-400">
@@ -337,9 +1025,51 @@ const App: React.FC = () => {
                 <p>{error}</p>
               </div>
             )}
+
+            {!loading && <RecentFiles onOpen={handleOpenRecent} />}
           </div>
         ) : (
-          <JsonGrid file={parsedFile} onUpdate={handleDataUpdate} />
+          <>
+            {notice && (
+              <div className="mt-4 p-4 bg-amber-400/10 border border-amber-400/20 rounded-xl flex items-start gap-3 text-amber-200">
+                <AlertCircle className="w-5 h-5 shrink-0 mt-0.5" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">{notice.message}</p>
+                  <ul className="mt-2 max-h-32 overflow-y-auto text-xs font-mono text-amber-200/80 space-y-0.5">
+                    {notice.details.map((detail, i) => <li key={i} className="truncate">{detail}</li>)}
+                  </ul>
+                </div>
+                <button
+                  onClick={() => setNotice(null)}
+                  className="p-1 rounded-md hover:bg-white/10 shrink-0"
+                  aria-label="Dismiss"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+            <JsonGrid
+              key={activeDoc!.id}
+              file={parsedFile}
+              path={activeDoc!.path}
+              onPathChange={handlePathChange}
+              searchTerm={activeDoc!.searchTerm}
+              onSearchChange={handleSearchChange}
+              searchMode={activeDoc!.searchMode}
+              onSearchModeChange={handleSearchModeChange}
+              viewMode={activeDoc!.viewMode}
+              onViewModeChange={handleViewModeChange}
+              onUpdate={handleDataUpdate}
+              copyTargets={copyTargets}
+              onCopyToDocument={handleCopyToDocument}
+              schemaValidation={schemaValidation}
+              onAttachSchema={handleAttachSchema}
+              onDetachSchema={handleDetachSchema}
+              patchReview={patchReview}
+              onApplyPatch={handleApplyPatch}
+              onCancelPatch={() => setPendingPatch(null)}
+            />
+          </>
         )}
       </main>
 
@@ -353,6 +1083,62 @@ const App: React.FC = () => {
         />
       )}
 
+      {/* List Picker for Envelope Documents */}
+      {pendingArrayChoice && (
+        <ArrayPickerModal
+          fileName={pendingArrayChoice.source.name}
+          candidates={pendingArrayChoice.candidates}
+          onSelect={handleArrayChoice}
+          onClose={() => setPendingArrayChoice(null)}
+        />
+      )}
+
+      {/* Crash Recovery (hidden while one of its diffs is open) */}
+      {recoveredSessions.length > 0 && !diffState && (
+        <RecoveryModal
+          sessions={recoveredSessions}
+          onRestore={handleRestoreSession}
+          onDiscard={handleDiscardSession}
+          onShowChanges={handleShowRecoveredChanges}
+          onClose={() => setRecoveredSessions([])}
+        />
+      )}
+
+      {/* Unsaved edits vs. a file that changed on disk */}
+      {mergeState && mergeDoc && (
+        <MergeModal
+          name={mergeDoc.name}
+          base={mergeDoc.savedData ?? mergeState.disk}
+          disk={mergeState.disk}
+          ours={mergeDoc.history.present}
+          level={mergeDoc.path}
+          onApply={handleMergeApply}
+          onKeepMine={handleMergeKeepMine}
+        />
+      )}
+
+      {/* Structural Diff */}
+      {diffState && (
+        <DiffModal
+          before={diffState.before}
+          after={diffState.after}
+          beforeLabel={diffState.beforeLabel}
+          afterLabel={diffState.afterLabel}
+          initialPath={diffState.initialPath}
+          onClose={() => setDiffState(null)}
+        />
+      )}
+
+      {/* Edit History */}
+      {showHistory && activeDoc && (
+        <HistoryPanel
+          history={activeDoc.history}
+          onJump={handleHistoryJump}
+          onCheckpoint={handleCheckpoint}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Help Modal */}
       {showHelp && (
         <HelpModal onClose={() => setShowHelp(false)} />
@@ -360,7 +1146,7 @@ const App: React.FC = () => {
 
       {/* Settings Modal */}
       {showSettings && (
-        <SettingsModal onClose={() => setShowSettings(false)} />
+        <SettingsModal onClose={() => setShowSettings(false)} fieldSuggestions={fieldSuggestions} />
       )}
     </div>
   );
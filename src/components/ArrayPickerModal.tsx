@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { X, List, Braces } from 'lucide-react';
+import { ArrayCandidate, formatPath } from '../utils/jsonPath';
+import { JsonPath } from '../types';
+
+interface ArrayPickerModalProps {
+  fileName: string;
+  candidates: ArrayCandidate[];
+  onSelect: (path: JsonPath) => void;
+  onClose: () => void;
+}
+
+const ArrayPickerModal: React.FC<ArrayPickerModalProps> = ({ fileName, candidates, onSelect, onClose }) => {
+  // Index into [...candidates, root]
+  const [activeIndex, setActiveIndex] = useState(0);
+  const optionCount = candidates.length + 1;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveIndex(prev => Math.min(prev + 1, optionCount - 1));
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex(prev => Math.max(prev - 1, 0));
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        onSelect(activeIndex < candidates.length ? candidates[activeIndex].path : []);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, onSelect, activeIndex, candidates, optionCount]);
+
+  const optionClass = (index: number) => `
+    w-full flex items-center justify-between gap-4 p-4 rounded-lg border text-left transition-colors
+    ${activeIndex === index ? 'border-accent/60 bg-accent/10' : 'border-subtle bg-surface/50 hover:border-accent/30'}
+  `;
+
+  return (
+    <div role="dialog" className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
+      <div
+        className="absolute inset-0 bg-base/90 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative w-full max-w-2xl max-h-full bg-base rounded-2xl shadow-2xl border border-subtle flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-subtle bg-surface shrink-0">
+          <div className="flex flex-col">
+            <h3 className="text-lg font-serif font-medium text-white">Choose a list to open</h3>
+            <span className="text-xs text-text-dim font-mono truncate">{fileName}</span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-text-muted hover:text-white hover:bg-highlight rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-6 bg-base overflow-y-auto space-y-3">
+          <p className="text-sm text-text-dim">
+            This document contains several lists of objects. The whole document is kept and saved; this only picks where the grid opens.
+          </p>
+          {candidates.map((candidate, index) => (
+            <button
+              key={formatPath(candidate.path)}
+              onClick={() => onSelect(candidate.path)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={optionClass(index)}
+            >
+              <span className="flex items-center gap-3 min-w-0">
+                <List className="w-4 h-4 text-accent shrink-0" />
+                <span className="font-mono text-sm font-bold text-text-main truncate">{formatPath(candidate.path)}</span>
+              </span>
+              <span className="px-2 py-0.5 rounded-full bg-accent/10 border border-accent/20 text-[11px] text-accent font-extrabold shrink-0">
+                {candidate.length} items
+              </span>
+            </button>
+          ))}
+          <button
+            onClick={() => onSelect([])}
+            onMouseEnter={() => setActiveIndex(candidates.length)}
+            className={optionClass(candidates.length)}
+          >
+            <span className="flex items-center gap-3">
+              <Braces className="w-4 h-4 text-text-muted shrink-0" />
+              <span className="text-sm font-medium text-text-main">Document root</span>
+            </span>
+          </button>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 border-t border-subtle bg-surface text-xs text-text-dim flex justify-center font-mono shrink-0">
+          <span>Arrows to choose, Enter to open, ESC to cancel</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArrayPickerModal;
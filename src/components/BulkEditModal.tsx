@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { JsonObject, JsonValue } from '../types';
+import { BulkOperation, applyBulkEdit, describeBulkEdit } from '../utils/bulkEdit';
+import { ValueType } from '../utils/valueEdit';
+import { useDeferredInput } from '../hooks/useDeferredInput';
+import { inputClass, labelClass, radioClass } from './formStyles';
+
+export type BulkScope = 'selection' | 'filtered';
+
+interface BulkEditModalProps {
+  level: JsonObject | JsonValue[]; // The current level
+  selectedKeys: (string | number)[];
+  filteredKeys: (string | number)[]; // Every item shown in the grid
+  isFiltered: boolean; // Whether a search narrows the grid
+  fields: string[]; // Suggestions for the field inputs
+  onClose: () => void;
+  onApply: (newLevel: JsonValue, description: string) => void;
+}
+
+type OperationKind = BulkOperation['kind'];
+
+const OPERATIONS: { kind: OperationKind, label: string }[] = [
+  { kind: 'set', label: 'Set' },
+  { kind: 'rename', label: 'Rename' },
+  { kind: 'delete', label: 'Delete' },
+  { kind: 'type', label: 'Change Type' }
+];
+
+const TYPES: ValueType[] = ['string', 'number', 'boolean', 'null'];
+
+const BulkEditModal: React.FC<BulkEditModalProps> = ({ level, selectedKeys, filteredKeys, isFiltered, fields, onClose, onApply }) => {
+  const [scope, setScope] = useState<BulkScope>(selectedKeys.length > 0 ? 'selection' : 'filtered');
+  const [kind, setKind] = useState<OperationKind>('set');
+  const [field, setField] = useState('');
+  const [expression, setExpression] = useState('');
+  const [renameTo, setRenameTo] = useState('');
+  const [type, setType] = useState<ValueType>('string');
+  const fieldInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fieldInputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const operation: BulkOperation = useMemo(() => {
+    switch (kind) {
+      case 'set': return { kind, field, expression };
+      case 'rename': return { kind, field, to: renameTo };
+      case 'delete': return { kind, field };
+      case 'type': return { kind, field, type };
+    }
+  }, [kind, field, expression, renameTo, type]);
+
+  // Large levels make the preview slow
+  const { deferred: deferredOperation, isStale } = useDeferredInput(operation);
+  const targets = scope === 'selection' ? selectedKeys : filteredKeys;
+
+  const preview = useMemo(() => {
+    try {
+      return { result: applyBulkEdit(level, targets, deferredOperation), error: null };
+    } catch (err: any) {
+      return { result: null, error: err.message as string };
+    }
+  }, [level, targets, deferredOperation]);
+
+  const handleApply = () => {
+    if (!preview.result || preview.result.changed === 0 || isStale) return;
+    onApply(preview.result.data, describeBulkEdit(operation, preview.result.changed));
+  };
+
+  const submitOnEnter = (e: React.KeyboardEvent) => { if (e.key === 'Enter') handleApply(); };
+
+  const scopes: { value: BulkScope, label: string, disabled?: boolean }[] = [
+    { value: 'selection', label: `Selection (${selectedKeys.length})`, disabled: selectedKeys.length === 0 },
+    { value: 'filtered', label: `${isFiltered ? 'Filtered' : 'All'} items (${filteredKeys.length})` }
+  ];
+
+  const result = preview.result;
+
+  return (
+    <div role="dialog" className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-base border border-subtle rounded-xl shadow-2xl w-full max-w-xl flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 slide-in-from-bottom-4">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-subtle">
+          <h2 className="text-lg font-bold text-text-main">Bulk Edit</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="space-y-2">
+            <h3 className="text-sm font-bold text-accent uppercase tracking-wider">Apply To</h3>
+            <div className="flex gap-2">
+              {scopes.map(choice => (
+                <label key={choice.value} className={radioClass(scope === choice.value, choice.disabled)}>
+                  <input type="radio" className="sr-only" disabled={choice.disabled} checked={scope === choice.value} onChange={() => setScope(choice.value)} />
+                  {choice.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-bold text-accent uppercase tracking-wider">Operation</h3>
+            <div className="flex gap-2">
+              {OPERATIONS.map(choice => (
+                <label key={choice.kind} className={radioClass(kind === choice.kind)}>
+                  <input type="radio" className="sr-only" checked={kind === choice.kind} onChange={() => setKind(choice.kind)} />
+                  {choice.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <datalist id="bulk-field-suggestions">
+            {fields.map(f => <option key={f} value={f} />)}
+          </datalist>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className={labelClass}>Field</span>
+              <input
+                ref={fieldInputRef}
+                type="text"
+                value={field}
+                onChange={(e) => setField(e.target.value)}
+                onKeyDown={submitOnEnter}
+                list="bulk-field-suggestions"
+                placeholder="reviewed or address.city"
+                spellCheck={false}
+                className={inputClass}
+              />
+            </label>
+
+            {kind === 'set' && (
+              <label className="space-y-1">
+                <span className={labelClass}>Value</span>
+                <input
+                  type="text"
+                  value={expression}
+                  onChange={(e) => setExpression(e.target.value)}
+                  onKeyDown={submitOnEnter}
+                  placeholder='true, "text" or first + " " + last'
+                  spellCheck={false}
+                  className={inputClass}
+                />
+              </label>
+            )}
+            {kind === 'rename' && (
+              <label className="space-y-1">
+                <span className={labelClass}>New name</span>
+                <input
+                  type="text"
+                  value={renameTo}
+                  onChange={(e) => setRenameTo(e.target.value)}
+                  onKeyDown={submitOnEnter}
+                  placeholder="userId"
+                  spellCheck={false}
+                  className={inputClass}
+                />
+              </label>
+            )}
+            {kind === 'type' && (
+              <label className="space-y-1">
+                <span className={labelClass}>Convert to</span>
+                <select value={type} onChange={(e) => setType(e.target.value as ValueType)} className={inputClass}>
+                  {TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {kind === 'set' && (
+            <p className="text-xs text-text-dim">
+              JSON is used as is. Anything else is computed per item from its fields: <code className="text-text-muted">price * 1.2</code>, <code className="text-text-muted">first + " " + last</code>, <code className="text-text-muted">user.id</code>. Items missing a referenced field are skipped.
+            </p>
+          )}
+
+          {/* Preview */}
+          {preview.error ? (
+            <p className="flex items-center gap-2 px-3 py-2 rounded-md bg-red-500/20 border border-red-500/30 text-red-100 text-xs font-mono">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+              {preview.error}
+            </p>
+          ) : result && (
+            <p className="px-3 py-2 rounded-md bg-surface border border-subtle text-xs font-mono text-text-main">
+              <span className="text-accent font-bold">{result.changed}</span> of {targets.length} item{targets.length === 1 ? '' : 's'} will change
+              {result.unchanged > 0 && <span className="text-text-dim">, {result.unchanged} already match</span>}
+              {result.skipped > 0 && <span className="text-amber-300">, {result.skipped} skipped</span>}
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-subtle flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-surface hover:bg-highlight border border-subtle rounded-lg text-text-main font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!result || result.changed === 0}
+            className="px-4 py-2 bg-accent text-base hover:bg-accent/90 rounded-lg font-medium transition-colors shadow-glow disabled:bg-subtle disabled:text-text-dim disabled:shadow-none disabled:cursor-not-allowed"
+          >
+            Apply
+          </button>
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default BulkEditModal;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { GitCompare, History, FileText, FolderOpen, FileOutput, FileInput } from 'lucide-react';
+
+interface CompareMenuProps {
+  otherDocuments: { id: string, name: string }[];
+  onCompareSaved: () => void;
+  onCompareDocument: (id: string) => void;
+  onCompareFile: () => void;
+  onExportPatch: () => void;
+  onApplyPatch: () => void;
+}
+
+const CompareMenu: React.FC<CompareMenuProps> = ({ otherDocuments, onCompareSaved, onCompareDocument, onCompareFile, onExportPatch, onApplyPatch }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Run the action and close the menu
+  const choose = (action: () => void) => () => {
+    setIsOpen(false);
+    action();
+  };
+
+  const itemClass = "w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-text-main hover:bg-highlight";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-text-main hover:text-accent hover:bg-surface rounded-lg transition-all border border-transparent hover:border-subtle"
+        title="Compare"
+      >
+        <GitCompare className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-64 py-1 bg-surface border border-subtle rounded-lg shadow-2xl z-50 animate-in fade-in zoom-in-95 duration-150">
+            <button onClick={choose(onCompareSaved)} className={itemClass}>
+              <History className="w-4 h-4 text-text-muted shrink-0" />
+              <span>Changes since last save</span>
+            </button>
+            {otherDocuments.length > 0 && (
+              <div className="my-1 border-t border-subtle/50">
+                <span className="block px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-text-dim">Compare with tab</span>
+                {otherDocuments.map(doc => (
+                  <button key={doc.id} onClick={choose(() => onCompareDocument(doc.id))} className={itemClass}>
+                    <FileText className="w-4 h-4 text-text-muted shrink-0" />
+                    <span className="truncate">{doc.name}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="my-1 border-t border-subtle/50" />
+            <button onClick={choose(onCompareFile)} className={itemClass}>
+              <FolderOpen className="w-4 h-4 text-text-muted shrink-0" />
+              <span>Compare with file…</span>
+            </button>
+            <div className="my-1 border-t border-subtle/50" />
+            <button onClick={choose(onExportPatch)} className={itemClass}>
+              <FileOutput className="w-4 h-4 text-text-muted shrink-0" />
+              <span>Export changes as JSON Patch…</span>
+            </button>
+            <button onClick={choose(onApplyPatch)} className={itemClass}>
+              <FileInput className="w-4 h-4 text-text-muted shrink-0" />
+              <span>Apply JSON Patch…</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CompareMenu;
@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { JsonValue } from '../types';
+import { CsvExportOptions, NestedMode, recordsToCsv } from '../utils/csv';
+
+interface CsvExportModalProps {
+  items: JsonValue[];
+  onClose: () => void;
+  onExport: (text: string, options: CsvExportOptions) => void;
+}
+
+const CsvExportModal: React.FC<CsvExportModalProps> = ({ items, onClose, onExport }) => {
+  const [options, setOptions] = useState<CsvExportOptions>({ delimiter: ',', nested: 'flatten' });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const text = useMemo(() => recordsToCsv(items, options), [items, options]);
+  const header = text.slice(0, text.indexOf('\n'));
+  const columnCount = header ? header.split(options.delimiter).length : 0;
+
+  const radioClass = (checked: boolean) => `
+    flex-1 px-3 py-2 rounded-md border text-sm font-medium text-center cursor-pointer transition-colors
+    ${checked ? 'border-accent/60 bg-accent/10 text-white' : 'border-subtle bg-base text-text-muted hover:border-accent/30'}
+  `;
+
+  const nestedChoices: { value: NestedMode, label: string, hint: string }[] = [
+    { value: 'flatten', label: 'Flatten', hint: 'address.city, tags.0, ...' },
+    { value: 'json', label: 'JSON-encode', hint: 'One column holding the nested JSON' }
+  ];
+
+  return (
+    <div role="dialog" className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-base border border-subtle rounded-xl shadow-2xl w-full max-w-md flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 slide-in-from-bottom-4">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-subtle">
+          <h2 className="text-lg font-bold text-text-main">Export as CSV</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="space-y-2">
+            <h3 className="text-sm font-bold text-accent uppercase tracking-wider">Separator</h3>
+            <div className="flex gap-2">
+              <label className={radioClass(options.delimiter === ',')}>
+                <input type="radio" className="sr-only" checked={options.delimiter === ','} onChange={() => setOptions(o => ({ ...o, delimiter: ',' }))} />
+                Comma (.csv)
+              </label>
+              <label className={radioClass(options.delimiter === '\t')}>
+                <input type="radio" className="sr-only" checked={options.delimiter === '\t'} onChange={() => setOptions(o => ({ ...o, delimiter: '\t' }))} />
+                Tab (.tsv)
+              </label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-bold text-accent uppercase tracking-wider">Nested Values</h3>
+            <div className="flex flex-col gap-2">
+              {nestedChoices.map(choice => (
+                <label key={choice.value} className={`${radioClass(options.nested === choice.value)} text-left flex flex-col`}>
+                  <input type="radio" className="sr-only" checked={options.nested === choice.value} onChange={() => setOptions(o => ({ ...o, nested: choice.value }))} />
+                  <span>{choice.label}</span>
+                  <span className="text-xs text-text-dim font-mono">{choice.hint}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-text-dim font-mono">
+            {items.length} rows, {columnCount} columns
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-subtle flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-surface hover:bg-highlight border border-subtle rounded-lg text-text-main font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport(text, options)}
+            className="px-4 py-2 bg-accent text-base hover:bg-accent/90 rounded-lg font-medium transition-colors shadow-glow"
+          >
+            Export
+          </button>
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default CsvExportModal;
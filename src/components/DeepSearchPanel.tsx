@@ -0,0 +1,125 @@
+import React, { RefObject, useEffect, useRef } from 'react';
+import { ChevronDown, ChevronUp, ScanSearch, X } from 'lucide-react';
+import { formatPath } from '../utils/jsonPath';
+import { DeepSearchResult } from '../utils/deepSearch';
+
+interface DeepSearchPanelProps {
+  inputRef: RefObject<HTMLInputElement | null>; // Owned by the grid so Ctrl+F can refocus an open panel
+  term: string;
+  onTermChange: (term: string) => void;
+  result: DeepSearchResult;
+  activeIndex: number | null;
+  onSelectHit: (index: number) => void;
+  onClose: () => void;
+}
+
+const DeepSearchPanel: React.FC<DeepSearchPanelProps> = ({ inputRef, term, onTermChange, result, activeIndex, onSelectHit, onClose }) => {
+  const listRef = useRef<HTMLUListElement>(null);
+  const { hits, truncated } = result;
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [inputRef]);
+
+  // Keep the active hit visible in the list
+  useEffect(() => {
+    if (activeIndex === null) return;
+    listRef.current?.querySelector(`[data-hit="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const step = (delta: number) => {
+    if (hits.length === 0) return;
+    const current = activeIndex ?? (delta > 0 ? -1 : 0);
+    onSelectHit((current + delta + hits.length) % hits.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep these away from the grid's own shortcuts (Shift+Enter goes up a level there)
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      e.stopPropagation();
+      step(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="mb-6 bg-surface/50 border border-subtle rounded-xl overflow-hidden animate-in fade-in duration-200"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-subtle">
+        <ScanSearch className="w-4 h-4 text-accent shrink-0" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={term}
+          onChange={(e) => onTermChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search the whole document…"
+          className="flex-1 min-w-0 bg-transparent text-sm text-text-main font-bold placeholder-text-dim focus:outline-none"
+        />
+        <span className="text-xs text-text-dim font-mono shrink-0">
+          {term ? `${activeIndex !== null ? activeIndex + 1 : 0} / ${hits.length}${truncated ? '+' : ''}` : ''}
+        </span>
+        <button
+          onClick={() => step(-1)}
+          disabled={hits.length === 0}
+          className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+          title="Previous hit (Shift+Enter)"
+          aria-label="Previous hit"
+        >
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => step(1)}
+          disabled={hits.length === 0}
+          className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+          title="Next hit (Enter)"
+          aria-label="Next hit"
+        >
+          <ChevronDown className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+          aria-label="Close document search"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Hits */}
+      {term && hits.length === 0 && (
+        <p className="px-4 py-3 text-xs text-text-dim">No matches in this document.</p>
+      )}
+      {hits.length > 0 && (
+        <ul ref={listRef} className="max-h-64 overflow-y-auto divide-y divide-subtle/50">
+          {hits.map((hit, i) => (
+            <li key={i} data-hit={i}>
+              <button
+                onClick={() => onSelectHit(i)}
+                className={`w-full px-4 py-1.5 text-left transition-colors ${i === activeIndex ? 'bg-accent/15' : 'hover:bg-highlight'}`}
+              >
+                <div className="text-[11px] font-mono font-bold text-accent truncate">{formatPath(hit.path)}</div>
+                <div className="text-xs font-mono text-text-muted truncate">
+                  {hit.snippet.slice(0, hit.matchStart)}
+                  <mark className="bg-accent/30 text-white rounded-sm">{hit.snippet.slice(hit.matchStart, hit.matchStart + hit.matchLength)}</mark>
+                  {hit.snippet.slice(hit.matchStart + hit.matchLength)}
+                </div>
+              </button>
+            </li>
+          ))}
+          {truncated && (
+            <li className="px-4 py-1.5 text-xs text-text-dim">Showing the first {hits.length} hits; refine the search to see more.</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DeepSearchPanel;
@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Home, ChevronRight as BreadcrumbSeparator, GitCompare } from 'lucide-react';
+import { JsonPath, JsonValue } from '../types';
+import { getAtPath } from '../utils/jsonPath';
+import { DiffStatus, diffChildren, diffFields, summarizeDiff } from '../utils/jsonDiff';
+import JsonCard from './JsonCard';
+
+interface DiffModalProps {
+  before: JsonValue;
+  after: JsonValue;
+  beforeLabel: string;
+  afterLabel: string;
+  initialPath?: JsonPath; // Opens at this level when it exists on both sides
+  onClose: () => void;
+}
+
+// One step of the drill-down: the aligned values on each side
+interface DiffLevel {
+  name: string | number;
+  before: JsonValue | undefined;
+  after: JsonValue | undefined;
+}
+
+const STATUS_PILL: Record<Exclude<DiffStatus, 'unchanged'>, string> = {
+  added: 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400',
+  removed: 'bg-red-500/10 border-red-500/30 text-red-400',
+  modified: 'bg-amber-400/10 border-amber-400/30 text-amber-300'
+};
+
+const DiffModal: React.FC<DiffModalProps> = ({ before, after, beforeLabel, afterLabel, initialPath = [], onClose }) => {
+  const [keyField, setKeyField] = useState('');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  // Drill-down stack; starts at initialPath if both documents have it
+  const [levels, setLevels] = useState<DiffLevel[]>(() => {
+    const stack: DiffLevel[] = [];
+    initialPath.forEach((segment, i) => {
+      const prefix = initialPath.slice(0, i + 1);
+      stack.push({ name: segment, before: getAtPath(before, prefix), after: getAtPath(after, prefix) });
+    });
+    const valid = stack.every(level => level.before !== undefined && level.after !== undefined);
+    return valid ? stack : [];
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const current = levels.length > 0 ? levels[levels.length - 1] : { name: '', before, after };
+  const options = useMemo(() => ({ keyField: keyField.trim() || undefined }), [keyField]);
+
+  const entries = useMemo(() => diffChildren(current.before, current.after, options), [current.before, current.after, options]);
+  const summary = useMemo(() => summarizeDiff(before, after, options), [before, after, options]);
+
+  const visibleEntries = showUnchanged ? entries : entries.filter(entry => entry.status !== 'unchanged');
+  const isLeafChange = entries.length === 0 && current.before !== current.after;
+
+  const drillInto = (name: string | number, beforeVal: JsonValue | undefined, afterVal: JsonValue | undefined) => {
+    const isContainer = (val: JsonValue | undefined) => typeof val === 'object' && val !== null;
+    if (!isContainer(beforeVal) && !isContainer(afterVal)) return;
+    setLevels(prev => [...prev, { name, before: beforeVal, after: afterVal }]);
+  };
+
+  return (
+    <div role="dialog" className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
+      <div
+        className="absolute inset-0 bg-base/90 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative w-[90vw] h-[90vh] bg-base rounded-2xl shadow-2xl border border-subtle flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-subtle bg-surface shrink-0 gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <GitCompare className="w-5 h-5 text-accent shrink-0" />
+            <h3 className="text-lg font-serif font-medium text-white truncate">
+              {beforeLabel} <span className="text-text-dim">→</span> {afterLabel}
+            </h3>
+          </div>
+
+          <div className="flex items-center gap-3 shrink-0">
+            {(['added', 'removed', 'modified'] as const).map(status => (
+              <span key={status} className={`px-2 py-0.5 rounded-full border text-[11px] font-extrabold ${STATUS_PILL[status]}`}>
+                {summary[status]} {status}
+              </span>
+            ))}
+            <button
+              onClick={onClose}
+              className="p-2 text-text-muted hover:text-white hover:bg-highlight rounded-lg transition-colors"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div className="flex flex-col md:flex-row gap-2 md:items-center justify-between px-6 py-3 border-b border-subtle/50 shrink-0">
+          <div className="flex items-center gap-2 p-1 bg-surface/50 border border-subtle rounded-lg overflow-x-auto">
+            <button
+              onClick={() => setLevels([])}
+              className={`flex items-center gap-1.5 px-2 py-0.5 rounded-md text-sm font-bold transition-colors ${levels.length === 0 ? 'text-white bg-accent/20' : 'text-text-muted hover:text-white hover:bg-white/5'}`}
+            >
+              <Home className="w-3.5 h-3.5" />
+              <span>root</span>
+            </button>
+            {levels.map((level, i) => (
+              <div key={i} className="flex items-center gap-1 shrink-0">
+                <BreadcrumbSeparator className="w-3.5 h-3.5 text-text-dim" />
+                <button
+                  onClick={() => setLevels(prev => prev.slice(0, i + 1))}
+                  className={`px-2 py-0.5 rounded-md text-sm font-bold transition-colors ${i === levels.length - 1 ? 'text-white bg-accent/20' : 'text-text-muted hover:text-white hover:bg-white/5'}`}
+                >
+                  {level.name}
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-xs font-bold text-text-muted">
+              <span className="uppercase tracking-wide">Match items by</span>
+              <input
+                type="text"
+                value={keyField}
+                onChange={(e) => setKeyField(e.target.value)}
+                placeholder="index (or e.g. id)"
+                className="w-36 px-3 py-1 bg-surface border border-subtle rounded-md text-sm text-text-main font-mono focus:outline-none focus:border-accent focus:ring-1 focus:ring-accent placeholder:text-text-dim/50"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-xs font-bold text-text-muted cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={() => setShowUnchanged(prev => !prev)}
+                className="accent-cyan-400"
+              />
+              <span className="uppercase tracking-wide">Show unchanged</span>
+            </label>
+          </div>
+        </div>
+
+        {/* Cards */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {isLeafChange ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <JsonCard name={beforeLabel} data={current.before ?? null} isActive={false} isSelected={false} diffStatus="removed" onClick={() => {}} onDoubleClick={() => {}} onDetailsClick={() => {}} />
+              <JsonCard name={afterLabel} data={current.after ?? null} isActive={false} isSelected={false} diffStatus="added" onClick={() => {}} onDoubleClick={() => {}} onDetailsClick={() => {}} />
+            </div>
+          ) : visibleEntries.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+              {visibleEntries.map(entry => (
+                <JsonCard
+                  key={entry.id}
+                  name={entry.name}
+                  data={(entry.status === 'removed' ? entry.before : entry.after) ?? null}
+                  isActive={false}
+                  isSelected={false}
+                  diffStatus={entry.status}
+                  fieldDiff={entry.status === 'modified' ? diffFields(entry.before, entry.after) : undefined}
+                  onClick={() => {}}
+                  onDoubleClick={() => drillInto(entry.name, entry.before, entry.after)}
+                  onDetailsClick={() => drillInto(entry.name, entry.before, entry.after)}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-24 text-text-dim">
+              <GitCompare className="w-12 h-12 mb-4 opacity-20" />
+              <p className="text-lg font-light">No differences at this level.</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 border-t border-subtle bg-surface text-xs text-text-dim flex justify-between font-mono font-bold shrink-0">
+          <span>{visibleEntries.length} of {entries.length} items shown</span>
+          <span>Double-click a card to compare inside it. ESC to close</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiffModal;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+
+export interface ExportOption {
+  label: string;
+  onSelect: () => void;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ options }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (options.length === 0) return null;
+
+  return (
+    <div className="relative flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="p-2 rounded-full bg-surface border border-subtle text-text-muted hover:text-accent hover:border-accent/30 transition-all"
+        title="Export this level"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-56 py-1 bg-surface border border-subtle rounded-lg shadow-2xl z-50 animate-in fade-in zoom-in-95 duration-150">
+            {options.map(option => (
+              <button
+                key={option.label}
+                onClick={() => {
+                  setIsOpen(false);
+                  option.onSelect();
+                }}
+                className="w-full px-3 py-2 text-left text-sm text-text-main hover:bg-highlight"
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -1,13 +1,13 @@
-import React, { useRef, useState } from 'react';
+import React, { useState } from 'react';
 import { UploadCloud, FileType } from 'lucide-react';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
+  onBrowse: () => void; // Native open dialog, so the opened file keeps its real path
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onBrowse }) => {
   const [isDragging, setIsDragging] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -25,22 +25,16 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
     
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
       const file = e.dataTransfer.files[0];
-      if (file.type === "application/json" || file.name.endsWith(".json")) {
+      if (file.type === "application/json" || /\.(json|jsonl|ndjson|csv|tsv)$/i.test(file.name)) {
         onFileSelect(file);
       } else {
-        alert("Please upload a valid JSON file.");
+        alert("Please upload a JSON, JSON Lines, CSV or TSV file.");
       }
     }
   };
 
-  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      onFileSelect(e.target.files[0]);
-    }
-  };
-
   const handleClick = () => {
-    fileInputRef.current?.click();
+    onBrowse();
   };
 
   return (
@@ -59,14 +53,6 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
         }
       `}
     >
-      <input
-        type="file"
-        ref={fileInputRef}
-        onChange={handleFileInput}
-        accept=".json,application/json"
-        className="hidden"
-      />
-      
       <div className="flex flex-col items-center gap-5 p-6 text-center">
         <div className={`
           p-4 rounded-full transition-all duration-300
@@ -77,7 +63,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
         
         <div className="space-y-2">
           <p className="text-xl font-serif text-text-main group-hover:text-white transition-colors">
-            {isDragging ? 'Drop JSON file' : 'Drop JSON file, or click to select'}
+            {isDragging ? 'Drop JSON file' : 'Drop JSON or JSONL file, or click to select'}
           </p>
         </div>
       </div>
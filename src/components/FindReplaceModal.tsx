@@ -0,0 +1,246 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { JsonPath, JsonValue } from '../types';
+import { formatPath } from '../utils/jsonPath';
+import { FindReplaceOptions, ReplaceTarget, ReplaceValueType, findReplace } from '../utils/findReplace';
+import { useDeferredInput } from '../hooks/useDeferredInput';
+import { inputClass, radioClass } from './formStyles';
+
+export type ReplaceScope = 'level' | 'selection' | 'document';
+
+interface FindReplaceModalProps {
+  data: JsonValue; // Whole document
+  levelPath: JsonPath;
+  selectedKeys: (string | number)[]; // Keys of the selected cards at the current level
+  onClose: () => void;
+  onApply: (newData: JsonValue) => void;
+}
+
+// Rows rendered in the preview; the count above it is always complete
+const PREVIEW_LIMIT = 300;
+
+const FindReplaceModal: React.FC<FindReplaceModalProps> = ({ data, levelPath, selectedKeys, onClose, onApply }) => {
+  const [options, setOptions] = useState<FindReplaceOptions>({
+    find: '',
+    replace: '',
+    useRegex: false,
+    caseSensitive: false,
+    target: 'values',
+    types: ['string']
+  });
+  const [scope, setScope] = useState<ReplaceScope>(selectedKeys.length > 0 ? 'selection' : 'level');
+  const findInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    findInputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Whole-document previews can be slow
+  const { deferred: deferredOptions, isStale } = useDeferredInput(options);
+
+  const preview = useMemo(() => {
+    try {
+      const scopePath = scope === 'document' ? [] : levelPath;
+      const onlyKeys = scope === 'selection' ? selectedKeys : undefined;
+      return { result: findReplace(data, scopePath, deferredOptions, onlyKeys), error: null };
+    } catch (err: any) {
+      return { result: null, error: err.message as string };
+    }
+  }, [data, levelPath, selectedKeys, scope, deferredOptions]);
+
+  const changes = preview.result?.changes ?? [];
+  const applicable = changes.filter(change => !change.conflict);
+  const conflicts = changes.length - applicable.length;
+
+  const update = <K extends keyof FindReplaceOptions>(key: K, value: FindReplaceOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleType = (type: ReplaceValueType) => {
+    setOptions(prev => ({
+      ...prev,
+      types: prev.types.includes(type) ? prev.types.filter(t => t !== type) : [...prev.types, type]
+    }));
+  };
+
+  const handleApply = () => {
+    if (!preview.result || applicable.length === 0 || isStale) return;
+    onApply(preview.result.data);
+  };
+
+  const scopes: { value: ReplaceScope, label: string, disabled?: boolean }[] = [
+    { value: 'level', label: 'This level' },
+    { value: 'selection', label: `Selection (${selectedKeys.length})`, disabled: selectedKeys.length === 0 },
+    { value: 'document', label: 'Document' }
+  ];
+  const targets: { value: ReplaceTarget, label: string }[] = [
+    { value: 'values', label: 'Values' },
+    { value: 'keys', label: 'Keys' },
+    { value: 'both', label: 'Both' }
+  ];
+  const types: ReplaceValueType[] = ['string', 'number', 'boolean', 'null'];
+
+  return (
+    <div role="dialog" className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-base border border-subtle rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 slide-in-from-bottom-4">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-subtle">
+          <h2 className="text-lg font-bold text-text-main">Find and Replace</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="block text-xs font-bold text-text-muted uppercase tracking-wide">Find</span>
+              <input
+                ref={findInputRef}
+                type="text"
+                value={options.find}
+                onChange={(e) => update('find', e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleApply(); }}
+                placeholder={options.useRegex ? 'https?://old\\.host/(.*)' : 'Text to find'}
+                spellCheck={false}
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs font-bold text-text-muted uppercase tracking-wide">Replace with</span>
+              <input
+                type="text"
+                value={options.replace}
+                onChange={(e) => update('replace', e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleApply(); }}
+                placeholder={options.useRegex ? 'https://new.host/$1' : 'Replacement'}
+                spellCheck={false}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div className="flex items-center gap-4 text-sm text-text-main">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" className="accent-accent" checked={options.useRegex} onChange={(e) => update('useRegex', e.target.checked)} />
+              Regular expression
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" className="accent-accent" checked={options.caseSensitive} onChange={(e) => update('caseSensitive', e.target.checked)} />
+              Match case
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-bold text-accent uppercase tracking-wider">Scope</h3>
+            <div className="flex gap-2">
+              {scopes.map(choice => (
+                <label key={choice.value} className={radioClass(scope === choice.value, choice.disabled)}>
+                  <input type="radio" className="sr-only" disabled={choice.disabled} checked={scope === choice.value} onChange={() => setScope(choice.value)} />
+                  {choice.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <h3 className="text-sm font-bold text-accent uppercase tracking-wider">Match</h3>
+              <div className="flex gap-2">
+                {targets.map(choice => (
+                  <label key={choice.value} className={radioClass(options.target === choice.value)}>
+                    <input type="radio" className="sr-only" checked={options.target === choice.value} onChange={() => update('target', choice.value)} />
+                    {choice.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <h3 className="text-sm font-bold text-accent uppercase tracking-wider">Value Types</h3>
+              <div className="flex gap-2">
+                {types.map(type => (
+                  <label key={type} className={radioClass(options.types.includes(type), options.target === 'keys')}>
+                    <input type="checkbox" className="sr-only" disabled={options.target === 'keys'} checked={options.types.includes(type)} onChange={() => toggleType(type)} />
+                    {type}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-bold text-accent uppercase tracking-wider">Preview</h3>
+            {preview.error ? (
+              <p className="flex items-center gap-2 px-3 py-2 rounded-md bg-red-500/20 border border-red-500/30 text-red-100 text-xs font-mono">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                {preview.error}
+              </p>
+            ) : changes.length === 0 ? (
+              <p className="text-xs text-text-dim">{options.find ? 'No matches.' : 'Type something to find.'}</p>
+            ) : (
+              <ul className="max-h-56 overflow-y-auto rounded-md border border-subtle divide-y divide-subtle/50 text-xs font-mono">
+                {changes.slice(0, PREVIEW_LIMIT).map((change, i) => (
+                  <li key={i} className={`px-3 py-1.5 ${change.conflict ? 'opacity-60' : ''}`}>
+                    <div className="font-bold text-accent truncate">
+                      {formatPath(change.path)}
+                      {change.kind === 'key' && <span className="ml-2 text-text-dim font-normal">key</span>}
+                      {change.conflict && <span className="ml-2 text-amber-300 font-normal">skipped: key already exists</span>}
+                    </div>
+                    <div className="truncate">
+                      <span className="text-red-300 line-through">{JSON.stringify(change.before)}</span>
+                      <span className="mx-2 text-text-dim">→</span>
+                      <span className="text-emerald-300">{JSON.stringify(change.after)}</span>
+                    </div>
+                  </li>
+                ))}
+                {changes.length > PREVIEW_LIMIT && (
+                  <li className="px-3 py-1.5 text-text-dim">…and {changes.length - PREVIEW_LIMIT} more</li>
+                )}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-subtle flex items-center justify-between gap-2">
+          <span className="text-xs text-text-dim font-mono">
+            {applicable.length} replacement{applicable.length === 1 ? '' : 's'}
+            {conflicts > 0 && `, ${conflicts} skipped`}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-surface hover:bg-highlight border border-subtle rounded-lg text-text-main font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={applicable.length === 0}
+              className="px-4 py-2 bg-accent text-base hover:bg-accent/90 rounded-lg font-medium transition-colors shadow-glow disabled:bg-subtle disabled:text-text-dim disabled:shadow-none disabled:cursor-not-allowed"
+            >
+              Replace All
+            </button>
+          </div>
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default FindReplaceModal;
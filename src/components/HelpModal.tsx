@@ -19,6 +19,7 @@ const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
   const shortcuts = [
     // General
     { keys: ['Ctrl', 'S'], mac: ['⌘', 'S'], description: 'Save changes' },
+    { keys: ['Ctrl', 'Shift', 'S'], mac: ['⌘', '⇧', 'S'], description: 'Save as' },
     { keys: ['Ctrl', 'Z'], mac: ['⌘', 'Z'], description: 'Undo' },
     { keys: ['Ctrl', 'Shift', 'Z'], mac: ['⌘', '⇧', 'Z'], description: 'Redo' },
     // Navigation
@@ -28,10 +29,21 @@ const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
     { keys: ['Shift', 'Enter'], mac: ['⇧', 'Enter'], description: 'Go to parent' },
     { keys: ['Shift', 'Tab'], mac: ['⇧', 'Tab'], description: 'Go to parent (Alt)' },
     { keys: ['S'], mac: ['S'], description: 'Focus search' },
+    { keys: ['Ctrl', 'F'], mac: ['⌘', 'F'], description: 'Search whole document' },
+    { keys: ['Ctrl', 'H'], mac: ['⌘', 'H'], description: 'Find and replace' },
     // Actions
     { keys: ['D'], mac: ['D'], description: 'View details' },
     { keys: ['Ctrl', 'Arrows'], mac: ['⌘', 'Arrows'], description: 'Reorder items' },
     { keys: ['Shift', 'Arrows'], mac: ['⇧', 'Arrows'], description: 'Range select' },
+    { keys: ['Ctrl', 'C'], mac: ['⌘', 'C'], description: 'Copy items' },
+    { keys: ['Ctrl', 'X'], mac: ['⌘', 'X'], description: 'Cut items' },
+    { keys: ['Ctrl', 'V'], mac: ['⌘', 'V'], description: 'Paste items' },
+    { keys: ['A'], mac: ['A'], description: 'Add item / key' },
+    { keys: ['I'], mac: ['I'], description: 'Insert after focused' },
+    { keys: ['Shift', 'I'], mac: ['⇧', 'I'], description: 'Insert before focused' },
+    { keys: ['W'], mac: ['W'], description: 'Wrap in array' },
+    { keys: ['Shift', 'W'], mac: ['⇧', 'W'], description: 'Wrap in object' },
+    { keys: ['E'], mac: ['E'], description: 'Bulk edit fields' },
     { keys: ['Delete'], mac: ['Delete'], description: 'Delete item' },
     { keys: ['Esc'], mac: ['Esc'], description: 'Close / Deselect' },
   ];
@@ -40,7 +52,7 @@ const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
   const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
 
   return (
-    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
+    <div role="dialog" className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
       <div 
         className="absolute inset-0 bg-base/90 backdrop-blur-sm transition-opacity" 
         onClick={onClose}
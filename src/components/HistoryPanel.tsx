@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark, BookmarkPlus, History, X } from 'lucide-react';
+import { DocumentHistory } from '../types';
+
+interface HistoryPanelProps {
+  history: DocumentHistory;
+  onJump: (index: number) => void; // Number of entries to have applied
+  onCheckpoint: (entryId: string, name: string | null) => void;
+  onClose: () => void;
+}
+
+// Time of day for today's edits, date and time for older ones (restored histories)
+const formatTimestamp = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+    : date.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onCheckpoint, onClose }) => {
+  const { entries, index, savedIndex } = history;
+  // Entry whose checkpoint name is being edited
+  const [namingId, setNamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [checkpointsOnly, setCheckpointsOnly] = useState(false);
+  const currentRef = useRef<HTMLLIElement>(null);
+  // Enter and Escape unmount the name input, which may still report a blur
+  const cancelNamingRef = useRef(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !namingId) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, namingId]);
+
+  // Keep the current state in view as the user undoes and redoes
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [index]);
+
+  const startNaming = (entryId: string, current: string | null) => {
+    cancelNamingRef.current = false;
+    setNamingId(entryId);
+    setDraftName(current ?? '');
+  };
+
+  const commitName = () => {
+    if (namingId && !cancelNamingRef.current) onCheckpoint(namingId, draftName.trim() || null);
+    cancelNamingRef.current = true;
+    setNamingId(null);
+  };
+
+  const currentEntry = index > 0 ? entries[index - 1] : null;
+
+  // Newest first; position i means "i entries applied"
+  const rows = entries
+    .map((entry, i) => ({ entry, position: i + 1 }))
+    .filter(({ entry }) => !checkpointsOnly || entry.checkpoint !== null)
+    .reverse();
+
+  // Not a dialog: the grid keeps its shortcuts while the panel stays open for browsing
+  return (
+    <aside aria-label="History" className="fixed inset-y-0 right-0 z-[90] w-full max-w-sm flex flex-col bg-base border-l border-subtle shadow-2xl animate-in fade-in slide-in-from-right-4 duration-200">
+
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b border-subtle">
+        <h2 className="flex items-center gap-2 text-lg font-bold text-text-main">
+          <History className="w-5 h-5 text-accent" />
+          History
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-subtle text-xs">
+        <label className="flex items-center gap-2 text-text-muted cursor-pointer">
+          <input type="checkbox" checked={checkpointsOnly} onChange={(e) => setCheckpointsOnly(e.target.checked)} className="accent-accent" />
+          Checkpoints only
+        </label>
+        <button
+          onClick={() => currentEntry && startNaming(currentEntry.id, currentEntry.checkpoint)}
+          disabled={!currentEntry}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-md border border-subtle text-text-main hover:border-accent/30 hover:text-accent transition-colors disabled:opacity-30 disabled:hover:border-subtle disabled:hover:text-text-main"
+          title="Name the current state"
+        >
+          <BookmarkPlus className="w-3.5 h-3.5" />
+          Checkpoint
+        </button>
+      </div>
+
+      {/* Entries */}
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {rows.map(({ entry, position }) => {
+          const isCurrent = position === index;
+          const isUndone = position > index;
+          return (
+            <li key={entry.id} ref={isCurrent ? currentRef : undefined} className="group relative">
+              <button
+                onClick={() => onJump(position)}
+                className={`w-full text-left px-3 py-2 pr-9 rounded-lg border transition-colors ${isCurrent ? 'border-accent/40 bg-accent/10' : 'border-transparent hover:bg-surface'} ${isUndone ? 'opacity-50' : ''}`}
+              >
+                {entry.checkpoint && namingId !== entry.id && (
+                  <span className="flex items-center gap-1 text-[11px] font-bold uppercase tracking-wide text-accent">
+                    <Bookmark className="w-3 h-3 fill-current" />
+                    <span className="truncate">{entry.checkpoint}</span>
+                  </span>
+                )}
+                <span className="block text-sm text-text-main truncate" title={entry.description}>{entry.description}</span>
+                <span className="flex items-center gap-2 text-[11px] text-text-dim font-mono">
+                  {formatTimestamp(entry.timestamp)}
+                  {position === savedIndex && <span className="px-1 rounded bg-highlight text-text-muted">saved</span>}
+                  {isUndone && <span>undone</span>}
+                </span>
+              </button>
+
+              {namingId === entry.id ? (
+                <input
+                  autoFocus
+                  type="text"
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitName();
+                    if (e.key === 'Escape') {
+                      cancelNamingRef.current = true;
+                      setNamingId(null);
+                    }
+                  }}
+                  onBlur={commitName}
+                  placeholder="Checkpoint name"
+                  className="mt-1 w-full px-2 py-1 bg-surface border border-accent/60 rounded-md text-xs text-text-main focus:outline-none"
+                />
+              ) : (
+                <button
+                  onClick={() => startNaming(entry.id, entry.checkpoint)}
+                  className={`absolute top-2 right-2 p-1 rounded-md text-text-muted hover:text-accent hover:bg-white/10 transition-opacity ${entry.checkpoint ? '' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+                  title={entry.checkpoint ? 'Rename checkpoint' : 'Make this a checkpoint'}
+                >
+                  <Bookmark className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </li>
+          );
+        })}
+
+        {/* The state before the oldest kept entry */}
+        {!checkpointsOnly && (
+          <li ref={index === 0 ? currentRef : undefined}>
+            <button
+              onClick={() => onJump(0)}
+              className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${index === 0 ? 'border-accent/40 bg-accent/10' : 'border-transparent hover:bg-surface'}`}
+            >
+              <span className="block text-sm text-text-muted italic">Start of history</span>
+              {savedIndex === 0 && <span className="text-[11px] font-mono px-1 rounded bg-highlight text-text-muted">saved</span>}
+            </button>
+          </li>
+        )}
+
+        {checkpointsOnly && rows.length === 0 && (
+          <li className="px-3 py-6 text-center text-sm text-text-dim">No checkpoints yet.</li>
+        )}
+      </ul>
+    </aside>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+
+interface InlineKeyProps {
+  name: string;
+  siblingKeys: string[]; // Other keys of the same object, which the new name must not collide with
+  onRename: (newKey: string) => void;
+  className?: string;
+  children?: React.ReactNode; // Shown instead of the plain name (e.g. with a diff marker)
+}
+
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+const InlineKey: React.FC<InlineKeyProps> = ({ name, siblingKeys, onRename, className = '', children }) => {
+  const [text, setText] = useState<string | null>(null); // null when not editing
+
+  const error = text === null || text === name ? null
+    : text === '' ? 'Key cannot be empty'
+    : siblingKeys.includes(text) ? `"${text}" already exists`
+    : null;
+
+  const commit = () => {
+    if (text === null) return;
+    if (error) return;
+    setText(null);
+    if (text !== name) onRename(text);
+  };
+
+  if (text === null) {
+    return (
+      <span
+        onClick={(e) => {
+          e.stopPropagation();
+          setText(name);
+        }}
+        onDoubleClick={stop}
+        className={`truncate rounded cursor-text hover:bg-white/5 ${className}`}
+        title={`${name} (click to rename)`}
+      >
+        {children ?? name}
+      </span>
+    );
+  }
+
+  return (
+    <span className="flex flex-col gap-0.5">
+      <input
+        autoFocus
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            e.stopPropagation();
+            commit();
+          } else if (e.key === 'Escape') {
+            e.stopPropagation();
+            setText(null);
+          }
+        }}
+        onBlur={() => error ? setText(null) : commit()}
+        onClick={stop}
+        onDoubleClick={stop}
+        spellCheck={false}
+        className={`px-1 py-0.5 bg-base rounded border text-[10px] font-bold text-text-main font-mono focus:outline-none ${error ? 'border-red-500/60' : 'border-accent/60'}`}
+      />
+      {error && <span className="text-[10px] text-red-300 not-italic">{error}</span>}
+    </span>
+  );
+};
+
+export default InlineKey;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { JsonValue } from '../types';
+import { ValueType, convertValue, editText, parseEditedValue, valueTypeOf } from '../utils/valueEdit';
+
+interface InlineValueProps {
+  value: JsonValue; // A primitive; containers are not edited inline
+  onCommit: (value: JsonValue) => void;
+  className?: string; // Styling of the displayed value
+}
+
+const PRIMITIVE_TYPES: ValueType[] = ['string', 'number', 'boolean', 'null'];
+
+// Clicks inside the editor must not select, drag or drill into the card around it
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+const InlineValue: React.FC<InlineValueProps> = ({ value, onCommit, className = '' }) => {
+  const [text, setText] = useState<string | null>(null); // null when not editing
+  const [error, setError] = useState<string | null>(null);
+
+  const commit = () => {
+    if (text === null) return;
+    const result = parseEditedValue(value, text);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setText(null);
+    if (result.value !== value) onCommit(result.value);
+  };
+
+  const cancel = () => {
+    setText(null);
+    setError(null);
+  };
+
+  let display: React.ReactNode;
+  if (text !== null) {
+    display = (
+      <input
+        autoFocus
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setError(null);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            e.stopPropagation();
+            commit();
+          } else if (e.key === 'Escape') {
+            e.stopPropagation();
+            cancel();
+          }
+        }}
+        onBlur={() => error ? cancel() : commit()}
+        onClick={stop}
+        onDoubleClick={stop}
+        title={error ?? undefined}
+        className={`flex-1 min-w-0 px-1 py-0.5 bg-base rounded border text-text-main font-mono text-xs focus:outline-none ${error ? 'border-red-500/60' : 'border-accent/60'}`}
+      />
+    );
+  } else if (typeof value === 'boolean') {
+    display = (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onCommit(!value);
+        }}
+        onDoubleClick={stop}
+        className={`px-1.5 rounded border font-bold transition-colors ${value ? 'border-accent/40 bg-accent/10 text-accent' : 'border-subtle bg-white/5 text-text-muted'}`}
+        title="Click to toggle"
+        aria-pressed={value}
+      >
+        {String(value)}
+      </button>
+    );
+  } else {
+    display = (
+      <span
+        onClick={(e) => {
+          e.stopPropagation();
+          setText(editText(value));
+        }}
+        onDoubleClick={stop}
+        className={`truncate rounded cursor-text hover:bg-white/5 ${value === null ? 'text-text-dim italic' : ''} ${className}`}
+        title="Click to edit"
+      >
+        {value === null ? 'null' : value === '' ? <span className="text-text-dim italic">empty</span> : String(value)}
+      </span>
+    );
+  }
+
+  return (
+    <span className="group/field flex items-center gap-1 min-w-0 max-w-full">
+      {display}
+      <select
+        value={valueTypeOf(value)}
+        onChange={(e) => {
+          cancel();
+          onCommit(convertValue(value, e.target.value as ValueType));
+        }}
+        onClick={stop}
+        onDoubleClick={stop}
+        className="shrink-0 ml-auto px-0.5 bg-base border border-subtle rounded text-[9px] text-text-muted opacity-0 group-hover/field:opacity-100 focus:opacity-100 focus:outline-none transition-opacity"
+        title="Change type"
+        aria-label="Value type"
+      >
+        {PRIMITIVE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+      </select>
+    </span>
+  );
+};
+
+export default InlineValue;
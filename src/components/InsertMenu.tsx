@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+
+export interface InsertOption {
+  label: string;
+  shortcut: string;
+  disabled?: boolean;
+  onSelect: () => void;
+}
+
+interface InsertMenuProps {
+  options: InsertOption[];
+}
+
+const InsertMenu: React.FC<InsertMenuProps> = ({ options }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (options.length === 0) return null;
+
+  return (
+    <div className="relative flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="p-2 rounded-full bg-surface border border-subtle text-text-muted hover:text-accent hover:border-accent/30 transition-all"
+        title="Add, insert or wrap"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-60 py-1 bg-surface border border-subtle rounded-lg shadow-2xl z-50 animate-in fade-in zoom-in-95 duration-150">
+            {options.map(option => (
+              <button
+                key={option.label}
+                disabled={option.disabled}
+                onClick={() => {
+                  setIsOpen(false);
+                  option.onSelect();
+                }}
+                className="w-full flex items-center justify-between gap-3 px-3 py-2 text-left text-sm text-text-main hover:bg-highlight disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <span>{option.label}</span>
+                <kbd className="px-1.5 py-0.5 bg-highlight border border-subtle rounded text-[10px] text-accent font-mono font-bold">{option.shortcut}</kbd>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InsertMenu;
@@ -1,7 +1,26 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { JsonValue } from '../types';
 import { FileJson, GripVertical, Trash2 } from 'lucide-react';
 import { useSettingsStore } from '../store/settingsStore';
+import { DiffStatus } from '../utils/jsonDiff';
+import { previewText } from '../utils/preview';
+import InlineValue from './InlineValue';
+import InlineKey from './InlineKey';
+
+// Colours shared by whole-card and per-field diff highlights
+const DIFF_TEXT: Record<DiffStatus, string> = {
+  added: 'text-emerald-400',
+  removed: 'text-red-400 line-through',
+  modified: 'text-amber-300',
+  unchanged: ''
+};
+
+const DIFF_BORDER: Record<DiffStatus, string> = {
+  added: 'border-emerald-500/70',
+  removed: 'border-red-500/70 opacity-60',
+  modified: 'border-amber-400/70',
+  unchanged: 'border-subtle opacity-70'
+};
 
 interface JsonCardProps {
   id?: string;
@@ -17,9 +36,19 @@ interface JsonCardProps {
   onClick: (e: React.MouseEvent) => void;
   onDoubleClick: (e: React.MouseEvent) => void;
   onDetailsClick: () => void;
-  onDelete: () => void;
+  onDelete?: () => void;
+  diffStatus?: DiffStatus; // Set when the card is shown in a comparison
+  fieldDiff?: Record<string, DiffStatus>; // Changed fields of a modified card, keyed by field name or index
+  errorCount?: number; // Schema validation errors at or below this card
+  // Inline editing; leave unset for read-only cards (e.g. in comparisons)
+  onValueChange?: (value: JsonValue) => void; // The card's own value, when it is a primitive
+  onFieldChange?: (field: string | number, value: JsonValue) => void; // A primitive field or array item in the body
+  onFieldRename?: (oldKey: string, newKey: string) => void;
 }
 
+const isPrimitive = (val: JsonValue | undefined): val is string | number | boolean | null =>
+  val !== undefined && (val === null || typeof val !== 'object');
+
 const JsonCard: React.FC<JsonCardProps> = ({
   id,
   data,
@@ -34,7 +63,13 @@ const JsonCard: React.FC<JsonCardProps> = ({
   onClick,
   onDoubleClick,
   onDetailsClick,
-  onDelete
+  onDelete,
+  diffStatus,
+  fieldDiff,
+  errorCount,
+  onValueChange,
+  onFieldChange,
+  onFieldRename
 }) => {
   const { showTitle, showSubtitle, titleKey, subtitleKey } = useSettingsStore();
 
@@ -53,9 +88,8 @@ const JsonCard: React.FC<JsonCardProps> = ({
   const titleValue = titleK && (data as any)[titleK] ? String((data as any)[titleK]) : undefined;
   const subtitleValue = subtitleK && (data as any)[subtitleK] ? String((data as any)[subtitleK]) : undefined;
 
-  // Generate preview string (fallback if no title)
-  const rawString = JSON.stringify(data);
-  const preview = rawString.slice(0, 30) + (rawString.length > 30 ? '...' : '');
+  // Generate preview string (fallback if no title); bounded so huge values are not stringified whole
+  const preview = useMemo(() => previewText(data, 30), [data]);
 
   // Helper to render values intelligently
   const renderValue = (val: any): React.ReactNode => {
@@ -99,16 +133,20 @@ const JsonCard: React.FC<JsonCardProps> = ({
   };
 
   const renderBody = () => {
-    if (data === null) return <div className="text-text-dim italic">null</div>;
+    if (data === null && !onValueChange) return <div className="text-text-dim italic">null</div>;
 
-    if (typeof data !== 'object') {
+    if (typeof data !== 'object' || data === null) {
       return (
         <div className="flex flex-col h-full">
           <span className="text-accent font-bold text-[10px] tracking-wide truncate mb-2" title={String(name)}>
             {name}
           </span>
           <div className="flex items-center justify-center flex-1">
-            <span className="text-xl text-text-main font-bold font-mono break-all">{String(data)}</span>
+            {onValueChange ? (
+              <InlineValue value={data} onCommit={onValueChange} className="text-xl text-text-main font-bold font-mono" />
+            ) : (
+              <span className="text-xl text-text-main font-bold font-mono break-all">{String(data)}</span>
+            )}
           </div>
         </div>
       );
@@ -127,9 +165,11 @@ const JsonCard: React.FC<JsonCardProps> = ({
             <div className="flex flex-col gap-2">
               {items.map((item, i) => (
                 <div key={i} className="flex flex-col gap-0.5 overflow-hidden">
-                  <span className="text-accent font-bold text-[10px] font-mono">{i}</span>
+                  <span className={`font-bold text-[10px] font-mono ${fieldDiff?.[String(i)] ? DIFF_TEXT[fieldDiff[String(i)]] : 'text-accent'}`}>{i}</span>
                   <div className="text-text-main font-semibold text-xs truncate pl-2 border-l border-subtle">
-                    {typeof item === 'object' ? (Array.isArray(item) ? '[...]' : '{...}') : String(item)}
+                    {isPrimitive(item) && onFieldChange
+                      ? <InlineValue value={item} onCommit={(value) => onFieldChange(i, value)} />
+                      : typeof item === 'object' ? (Array.isArray(item) ? '[...]' : '{...}') : String(item)}
                   </div>
                 </div>
               ))}
@@ -147,8 +187,11 @@ const JsonCard: React.FC<JsonCardProps> = ({
     // Object logic for card body
     const allKeys = Object.keys(data);
 
+    // Fields that only exist on the "before" side of a comparison are still listed, struck through
+    const removedKeys = fieldDiff ? Object.keys(fieldDiff).filter(k => fieldDiff[k] === 'removed' && !(k in data)) : [];
+
     // Filter out title and subtitle keys from body if they are being displayed in header
-    const bodyKeysCandidate = allKeys.filter(k => k !== titleK && k !== subtitleK);
+    const bodyKeysCandidate = [...allKeys.filter(k => k !== titleK && k !== subtitleK), ...removedKeys];
     const bodyKeys = bodyKeysCandidate.slice(0, 6);
     const remainingCount = Math.max(0, bodyKeysCandidate.length - bodyKeys.length);
 
@@ -156,16 +199,37 @@ const JsonCard: React.FC<JsonCardProps> = ({
       <div className="flex flex-col h-full gap-2">
         {bodyKeys.length > 0 ? (
           <>
-            {bodyKeys.map(key => (
-              <div key={key} className="flex flex-col gap-1 overflow-hidden">
-                <span className="text-accent font-bold text-[10px] tracking-wide truncate" title={key}>
-                  {key}
-                </span>
-                <div className="text-text-main leading-relaxed">
-                  {renderValue((data as any)[key])}
+            {bodyKeys.map(key => {
+              const isRemoved = removedKeys.includes(key);
+              const value = (data as any)[key];
+              return (
+                <div key={key} className="flex flex-col gap-1 overflow-hidden">
+                  {onFieldRename && !isRemoved ? (
+                    <InlineKey
+                      name={key}
+                      siblingKeys={allKeys.filter(k => k !== key)}
+                      onRename={(newKey) => onFieldRename(key, newKey)}
+                      className="font-bold text-[10px] tracking-wide text-accent"
+                    />
+                  ) : (
+                    <span
+                      className={`font-bold text-[10px] tracking-wide truncate ${fieldDiff?.[key] ? DIFF_TEXT[fieldDiff[key]] : 'text-accent'}`}
+                      title={key}
+                    >
+                      {fieldDiff?.[key] && fieldDiff[key] !== 'removed' && <span className="mr-1">●</span>}
+                      {key}
+                    </span>
+                  )}
+                  <div className="text-text-main leading-relaxed">
+                    {isRemoved
+                      ? <span className="text-text-dim italic">removed</span>
+                      : isPrimitive(value) && onFieldChange
+                        ? <InlineValue value={value} onCommit={(newValue) => onFieldChange(key, newValue)} />
+                        : renderValue(value)}
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
             {remainingCount > 0 && (
               <div className="mt-auto pt-2 text-[10px] text-text-dim font-medium border-t border-subtle/30">
                 + {remainingCount} more properties
@@ -195,9 +259,11 @@ const JsonCard: React.FC<JsonCardProps> = ({
       className={`
         group relative flex flex-col rounded-xl overflow-hidden transition-all duration-300 h-full min-h-[200px] border
         ${draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'}
-        ${isActive
-          ? 'border-accent/80 shadow-glow ring-1 ring-accent/10'
-          : 'border-subtle hover:border-accent/50 hover:shadow-glow'
+        ${diffStatus
+          ? DIFF_BORDER[diffStatus]
+          : isActive
+            ? 'border-accent/80 shadow-glow ring-1 ring-accent/10'
+            : 'border-subtle hover:border-accent/50 hover:shadow-glow'
         }
         ${isSelected
           ? 'bg-accent/15'
@@ -216,6 +282,9 @@ const JsonCard: React.FC<JsonCardProps> = ({
           </div>
         )}
         <span className="font-extrabold not-italic min-w-[1.5rem] truncate">{name}</span>
+        {diffStatus && diffStatus !== 'unchanged' && (
+          <span className={`not-italic font-extrabold uppercase tracking-wider shrink-0 ${DIFF_TEXT[diffStatus]}`}>{diffStatus}</span>
+        )}
         <div className="h-3 w-0.5 bg-white/20 shrink-0"></div>
         {/* If we have a valid titleValue, show it here. Otherwise show preview string. */}
         {titleValue ? (
@@ -223,6 +292,14 @@ const JsonCard: React.FC<JsonCardProps> = ({
         ) : (
           <span className="truncate font-bold">{preview}</span>
         )}
+        {!!errorCount && (
+          <span
+            className="ml-auto shrink-0 px-1.5 rounded-full bg-red-400/15 border border-red-400/30 text-red-300 not-italic font-extrabold"
+            title={`${errorCount} schema error${errorCount === 1 ? '' : 's'}`}
+          >
+            {errorCount}
+          </span>
+        )}
       </div>
 
       {/* Subtitle Row - Only if subtitleValue exists */}
@@ -251,7 +328,7 @@ const JsonCard: React.FC<JsonCardProps> = ({
       </button>
 
       {/* Delete Button - Only visible when active */}
-      {isActive && (
+      {isActive && onDelete && (
         <button
           onClick={(e) => {
             e.stopPropagation();
@@ -1,18 +1,81 @@
-import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
-import { ParsedFile, JsonObject, JsonValue } from '../types';
+import React, { useState, useMemo, useEffect, useRef, useCallback, useDeferredValue } from 'react';
+import { ParsedFile, JsonObject, JsonValue, JsonPath, PatchOperation, SearchMode, ViewMode } from '../types';
+import { formatPath, getAtPath, moveValue, setAtPath } from '../utils/jsonPath';
 import JsonCard from './JsonCard';
+import JsonTable, { VALUE_COLUMN } from './JsonTable';
 import JsonModal from './JsonModal';
-import { Search, ChevronLeft, Home, ChevronRight as BreadcrumbSeparator, FileJson } from 'lucide-react';
+import ExportMenu, { ExportOption } from './ExportMenu';
+import CsvExportModal from './CsvExportModal';
+import SchemaPanel from './SchemaPanel';
+import PatchPanel from './PatchPanel';
+import DeepSearchPanel from './DeepSearchPanel';
+import FindReplaceModal from './FindReplaceModal';
+import SortMenu from './SortMenu';
+import TreeSidebar from './TreeSidebar';
+import InsertMenu, { InsertOption } from './InsertMenu';
+import KeyPromptModal from './KeyPromptModal';
+import PasteConflictModal from './PasteConflictModal';
+import BulkEditModal from './BulkEditModal';
+import { useSettingsStore } from '../store/settingsStore';
+import { toJsonLines } from '../utils/formats';
+import { CARD_LAYOUT, TABLE_LAYOUT, getGridColumnCount, useGridWindow } from '../hooks/useGridWindow';
+import { SchemaError, countErrorsByPrefix, pathKey } from '../utils/schema';
+import { generateSchema, inferFieldNames } from '../utils/schemaInference';
+import { SortKey, describeSort, sortItems } from '../utils/sort';
+import { buildItemTemplate, insertIntoArray, insertIntoObject } from '../utils/insert';
+import { ValueType, defaultValueFor, renameKey } from '../utils/valueEdit';
+import { ClipboardEntry, PasteConflictMode, copyEntries, entriesFromValue, findPasteConflicts, parseClipboardText, pasteIntoArray, pasteIntoObject, recallEntries } from '../utils/clipboard';
+import { compileQuery } from '../utils/query';
+import { searchDocument } from '../utils/deepSearch';
+import { PatchOutcome, markPatchedChildren } from '../utils/jsonPatch';
+import { CSV_FILTERS, JSON_FILTERS, JSONL_FILTERS, TSV_FILTERS, exportTextFile, stripExtension } from '../utils/files';
+import { Search, ChevronLeft, Home, ChevronRight as BreadcrumbSeparator, FileJson, Copy, Braces, ScanSearch, Replace, X, Shield, ShieldAlert, ShieldCheck, LayoutGrid, Table, ListTree, PenLine } from 'lucide-react';
+import { message } from '@tauri-apps/plugin-dialog';
+
+// Another open tab that selected cards can be copied into
+export interface CopyTarget {
+  id: string;
+  name: string;
+}
+
+// Result of validating the document against its attached schema
+export interface SchemaValidation {
+  schemaName: string;
+  errors: SchemaError[];
+}
+
+// A loaded JSON Patch waiting to be applied
+export interface PatchReview {
+  name: string;
+  operations: PatchOperation[];
+  outcome: PatchOutcome;
+}
 
 interface JsonGridProps {
   file: ParsedFile;
-  onUpdate: (newData: JsonObject[]) => void;
+  path: JsonPath;
+  onPathChange: (path: JsonPath) => void;
+  searchTerm: string;
+  onSearchChange: (term: string) => void;
+  searchMode: SearchMode;
+  onSearchModeChange: (mode: SearchMode) => void;
+  viewMode: ViewMode;
+  onViewModeChange: (mode: ViewMode) => void;
+  onUpdate: (newData: JsonValue, description?: string) => void; // Without a description, history derives one from the change
+  copyTargets: CopyTarget[];
+  onCopyToDocument: (targetId: string, items: { name: string | number, value: JsonValue }[]) => void;
+  schemaValidation: SchemaValidation | null; // null when no schema is attached
+  onAttachSchema: () => void;
+  onDetachSchema: () => void;
+  patchReview: PatchReview | null; // null unless a patch is being previewed
+  onApplyPatch: () => void;
+  onCancelPatch: () => void;
 }
 
 interface SelectedItemState {
     data: JsonValue;
     name: string | number;
-    fullPath: (string | number)[];
+    fullPath: JsonPath;
 }
 
 // Drop Indicator Component
@@ -26,14 +89,69 @@ const DropIndicator = ({ isEnd }: { isEnd?: boolean }) => (
   </div>
 );
 
-const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
-  const [searchTerm, setSearchTerm] = useState('');
+// Schema error count next to a breadcrumb segment
+const ErrorBadge = ({ count }: { count?: number }) => (
+  count ? (
+      <span className="ml-1 px-1.5 rounded-full bg-red-400/15 border border-red-400/30 text-[10px] text-red-300 font-extrabold" title={`${count} schema error${count === 1 ? '' : 's'}`}>
+          {count}
+      </span>
+  ) : null
+);
+
+const JsonGrid: React.FC<JsonGridProps> = ({
+  file,
+  path,
+  onPathChange,
+  searchTerm,
+  onSearchChange,
+  searchMode,
+  onSearchModeChange,
+  viewMode,
+  onViewModeChange,
+  onUpdate,
+  copyTargets,
+  onCopyToDocument,
+  schemaValidation,
+  onAttachSchema,
+  onDetachSchema,
+  patchReview,
+  onApplyPatch,
+  onCancelPatch
+}) => {
   const [selectedItem, setSelectedItem] = useState<SelectedItemState | null>(null);
+  const [showCopyMenu, setShowCopyMenu] = useState(false);
+  const [showCsvExport, setShowCsvExport] = useState(false);
+  const [showSchemaPanel, setShowSchemaPanel] = useState(false);
+  // Schema inferred from the current level, shown for review before export
+  const [generatedSchema, setGeneratedSchema] = useState<JsonObject | null>(null);
+
+  // Document-wide search (independent of the level filter above the grid)
+  const [showDeepSearch, setShowDeepSearch] = useState(false);
+  const [deepSearchTerm, setDeepSearchTerm] = useState('');
+  const [activeHitIndex, setActiveHitIndex] = useState<number | null>(null);
+  const deepSearchInputRef = useRef<HTMLInputElement>(null);
+
+  const [showFindReplace, setShowFindReplace] = useState(false);
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+
+  // View-only sort of the current level (the data keeps its order)
+  const [viewSort, setViewSort] = useState<SortKey[] | null>(null);
+
+  // Object levels ask for a key before adding one or wrapping values in an object
+  const [keyPrompt, setKeyPrompt] = useState<{ kind: 'insert', position: number } | { kind: 'wrap' } | null>(null);
+
+  // Paste into an object level waiting for the user to resolve key conflicts
+  const [pendingPaste, setPendingPaste] = useState<{ entries: ClipboardEntry[], conflicts: string[] } | null>(null);
+
+  const { showTree, toggleShowTree } = useSettingsStore();
+  // Outline node being dragged onto the grid
+  const treeDragRef = useRef<JsonPath | null>(null);
   
-  // Navigation & Selection State
-  const [path, setPath] = useState<(string | number)[]>([]);
+  // Navigation & Selection State (path itself lives with the document so each tab remembers it)
   const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
   const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
+  // Card to focus once a navigation has rendered the target level
+  const [pendingFocusKey, setPendingFocusKey] = useState<string | number | null>(null);
   
   // Ref to track the anchor point for Shift-click range selections
   const anchorIndexRef = useRef<number | null>(null);
@@ -53,38 +171,31 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
   const dropTargetRef = useRef<number | null>(null);
 
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const tableBodyRef = useRef<HTMLTableSectionElement>(null);
 
-  // Reset focus and selection when path changes
+  // Reset focus, selection and view sort when path changes
   useEffect(() => {
     setFocusedIndex(null);
     setSelectedIndices(new Set());
     anchorIndexRef.current = null;
-    setSearchTerm('');
+    setViewSort(null);
   }, [path]);
 
-  // Scroll to focused item
-  useEffect(() => {
-    if (focusedIndex !== null) {
-      const el = document.getElementById(`card-${focusedIndex}`);
-      if (el) {
-        el.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
-      }
-    }
-  }, [focusedIndex]);
+  // Moving to another level starts with a clean search
+  const navigateTo = useCallback((newPath: JsonPath) => {
+    onPathChange(newPath);
+    onSearchChange('');
+  }, [onPathChange, onSearchChange]);
 
   // Resolve current data based on path
   const currentLevelData = useMemo(() => {
-    let current: JsonValue = file.data;
-    for (const key of path) {
-        if (current && typeof current === 'object') {
-            current = (current as any)[key];
-        } else {
-            return null; // Should not happen
-        }
-    }
-    return current;
+    return getAtPath(file.data, path) ?? null;
   }, [file.data, path]);
 
+  // A primitive root (e.g. a file containing just `42`) has no children to tile
+  const isPrimitiveLevel = typeof currentLevelData !== 'object' || currentLevelData === null;
+
   // Convert current data into a list of items (cards)
   const allItems = useMemo(() => {
     if (!currentLevelData) return [];
@@ -100,9 +211,32 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
     return []; // Primitives don't show children
   }, [currentLevelData]);
 
+  // Query mode: compile once per edit of the search box; syntax errors are shown inline
+  const compiledQuery = useMemo(() => {
+    if (searchMode !== 'query' || !searchTerm.trim()) return { query: null, error: null };
+    try {
+      return { query: compileQuery(searchTerm), error: null };
+    } catch (err: any) {
+      return { query: null, error: err.message as string };
+    }
+  }, [searchMode, searchTerm]);
+
   // Filtering
   const filteredData = useMemo(() => {
     if (!searchTerm) return allItems;
+
+    if (searchMode === 'query') {
+      const { query } = compiledQuery;
+      // Keep everything visible while the query is being fixed
+      if (!query) return allItems;
+      if (query.kind === 'predicate') return allItems.filter(item => query.test(item.value));
+
+      // JSONPath runs against the whole level; keep the cards that contain a result
+      const hits = query.select(currentLevelData);
+      if (hits.some(hit => hit.length === 0)) return allItems;
+      const hitKeys = new Set(hits.map(hit => String(hit[0])));
+      return allItems.filter(item => hitKeys.has(String(item.name)));
+    }
     
     const lowerTerm = searchTerm.toLowerCase();
     return allItems.filter(item => {
@@ -110,10 +244,103 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
       return String(item.name).toLowerCase().includes(lowerTerm) || 
              JSON.stringify(item.value).toLowerCase().includes(lowerTerm);
     });
-  }, [allItems, searchTerm]);
+  }, [allItems, searchTerm, searchMode, compiledQuery, currentLevelData]);
 
-  // No pagination: show all filtered data
-  const currentData = filteredData;
+  const currentData = useMemo(() => {
+    return viewSort ? sortItems(filteredData, viewSort) : filteredData;
+  }, [filteredData, viewSort]);
+
+  // Reordering by hand only makes sense when the cards are shown in data order
+  const canReorder = !searchTerm && !viewSort;
+
+  // Field names of the records at this level (sort field suggestions)
+  const levelFields = useMemo(() => inferFieldNames(currentLevelData), [currentLevelData]);
+
+  // Primitive levels always show their single card
+  const isTableView = viewMode === ViewMode.LIST && !isPrimitiveLevel;
+
+  // Large levels only mount the cards (or rows) near the viewport
+  const gridWindow = useGridWindow(
+    currentData.length,
+    isTableView ? tableBodyRef : gridRef,
+    isTableView ? TABLE_LAYOUT : CARD_LAYOUT
+  );
+  const { scrollToIndex } = gridWindow;
+
+  // Focus the card requested by revealPath (runs after the path reset above)
+  useEffect(() => {
+    if (pendingFocusKey === null) return;
+    const index = currentData.findIndex(item => item.name === pendingFocusKey);
+    if (index >= 0) {
+      setFocusedIndex(index);
+      setSelectedIndices(new Set([index]));
+      anchorIndexRef.current = index;
+    }
+    setPendingFocusKey(null);
+  }, [pendingFocusKey, currentData]);
+
+  // Open the parent level of a location and focus its card
+  const focusPath = useCallback((target: JsonPath) => {
+    if (target.length === 0) {
+      navigateTo([]);
+      return;
+    }
+    navigateTo(target.slice(0, -1));
+    setPendingFocusKey(target[target.length - 1]);
+  }, [navigateTo]);
+
+  // Show any location: containers open as the current level, other values are focused on their parent level
+  const revealPath = useCallback((target: JsonPath) => {
+    const value = getAtPath(file.data, target);
+    if (typeof value === 'object' && value !== null) {
+      navigateTo(target);
+      return;
+    }
+    focusPath(target);
+  }, [file.data, navigateTo, focusPath]);
+
+  // Walking a big document on every keystroke would make typing lag; let the input update first
+  const deferredDeepSearchTerm = useDeferredValue(deepSearchTerm);
+  const deepSearchResult = useMemo(() => {
+    if (!showDeepSearch) return { hits: [], truncated: false };
+    return searchDocument(file.data, deferredDeepSearchTerm);
+  }, [showDeepSearch, file.data, deferredDeepSearchTerm]);
+
+  const handleSelectHit = useCallback((index: number) => {
+    const hit = deepSearchResult.hits[index];
+    if (!hit) return;
+    setActiveHitIndex(index);
+    focusPath(hit.path);
+  }, [deepSearchResult, focusPath]);
+
+  // Location of the focused card, mirrored in the outline
+  const focusedPath = useMemo(() => {
+    const item = focusedIndex !== null ? currentData[focusedIndex] : undefined;
+    return item ? [...path, item.name] : null;
+  }, [focusedIndex, currentData, path]);
+
+  // Error totals per path, for card and breadcrumb badges
+  const errorCounts = useMemo(() => {
+    return schemaValidation ? countErrorsByPrefix(schemaValidation.errors) : new Map<string, number>();
+  }, [schemaValidation]);
+
+  // Cards a previewed patch would change
+  const patchMarks = useMemo(() => {
+    return patchReview ? markPatchedChildren(file.data, patchReview.operations, path) : null;
+  }, [patchReview, file.data, path]);
+
+  // Scroll to focused item (it may not be mounted when the grid is windowed)
+  useEffect(() => {
+    if (focusedIndex === null) return;
+    if (gridWindow.enabled) {
+      scrollToIndex(focusedIndex);
+      return;
+    }
+    const el = document.getElementById(`card-${focusedIndex}`);
+    if (el) {
+      el.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [focusedIndex, gridWindow.enabled, scrollToIndex]);
 
   // Safety: ensure focusedIndex is valid when data changes size (e.g. deletion/undo)
   useEffect(() => {
@@ -135,36 +362,25 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
       }
   }, [currentData.length, focusedIndex]);
 
-  // Helper to deep update the file data
-  const updateDataAtCurrentPath = useCallback((newData: JsonValue) => {
-    const setDeep = (obj: any, targetPath: (string|number)[], value: any): any => {
-      if (targetPath.length === 0) return value;
-      const [head, ...rest] = targetPath;
-      
-      // Clone current level
-      const copy = Array.isArray(obj) ? [...obj] : { ...obj };
-      
-      // Get next object, ensuring it exists
-      const nextObj = obj && obj[head] !== undefined ? obj[head] : (typeof rest[0] === 'number' ? [] : {});
-      
-      copy[head] = setDeep(nextObj, rest, value);
-      return copy;
-    };
+  // Keys of the selected cards, in display order
+  const selectedKeys = useMemo(() => {
+    return Array.from(selectedIndices)
+      .sort((a, b) => a - b)
+      .map(i => currentData[i]?.name)
+      .filter(name => name !== undefined);
+  }, [selectedIndices, currentData]);
 
-    const newRoot = setDeep(file.data, path, newData);
-    
-    // Safety check for root
-    if (path.length === 0 && !Array.isArray(newRoot)) {
-        console.error("Root update failed validation: must be an array.");
-        return;
-    }
-    
-    onUpdate(newRoot as JsonObject[]);
+  // Keys of every card the search lets through, for bulk edits
+  const filteredKeys = useMemo(() => filteredData.map(item => item.name), [filteredData]);
+
+  // Helper to deep update the file data
+  const updateDataAtCurrentPath = useCallback((newData: JsonValue, description?: string) => {
+    onUpdate(setAtPath(file.data, path, newData), description);
   }, [file.data, path, onUpdate]);
 
   // Deterministic Multi-Item Reorder (takes indices as param, no state dependencies)
   const moveItemsDirect = useCallback((indicesToMove: Set<number>, targetIndex: number) => {
-      if (searchTerm) return; // Cannot reorder while filtering
+      if (!canReorder) return; // Cannot reorder while filtering or sorted
       
       const indices = Array.from(indicesToMove).sort((a, b) => a - b);
       if (indices.length === 0) return;
@@ -209,7 +425,140 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
       setFocusedIndex(insertionIndex);
       anchorIndexRef.current = insertionIndex;
 
-  }, [allItems, currentLevelData, searchTerm, updateDataAtCurrentPath]);
+  }, [allItems, currentLevelData, canReorder, updateDataAtCurrentPath]);
+
+  // Table cell edit: column is a key of the item, or VALUE_COLUMN for the item itself
+  const handleCellEdit = useCallback((index: number, column: string, value: JsonValue) => {
+      const item = currentData[index];
+      if (!item) return;
+      // Writing a key into a string, number, null or array would turn it into an object
+      const isObject = typeof item.value === 'object' && item.value !== null && !Array.isArray(item.value);
+      if (column !== VALUE_COLUMN && !isObject) return;
+      const target = column === VALUE_COLUMN ? [...path, item.name] : [...path, item.name, column];
+      onUpdate(setAtPath(file.data, target, value));
+  }, [currentData, path, file.data, onUpdate]);
+
+  // Inline card edits; each one is its own undo step
+  const handleFieldChange = useCallback((itemPath: JsonPath, value: JsonValue) => {
+      updateDataAtCurrentPath(setAtPath(currentLevelData, itemPath, value));
+  }, [currentLevelData, updateDataAtCurrentPath]);
+
+  const handleFieldRename = useCallback((name: string | number, oldKey: string, newKey: string) => {
+      const item = getAtPath(currentLevelData, [name]);
+      if (typeof item !== 'object' || item === null || Array.isArray(item)) return;
+      try {
+          updateDataAtCurrentPath(setAtPath(currentLevelData, [name], renameKey(item, oldKey, newKey)));
+      } catch (err: any) {
+          message(err.message, { title: 'Rename', kind: 'warning' });
+      }
+  }, [currentLevelData, updateDataAtCurrentPath]);
+
+  // Sort the data itself as one undoable edit
+  const handleRewriteOrder = useCallback((keys: SortKey[]) => {
+      const sorted = sortItems<{ name: string | number, value: JsonValue }>(allItems, keys);
+      let newData: JsonValue;
+      if (Array.isArray(currentLevelData)) {
+          newData = sorted.map(item => item.value);
+      } else {
+          const newObj: JsonObject = {};
+          sorted.forEach(item => {
+              newObj[item.name as string] = item.value;
+          });
+          newData = newObj;
+      }
+
+      updateDataAtCurrentPath(newData, `Sorted ${formatPath(path)} by ${describeSort(keys)}`);
+      setViewSort(null);
+      setSelectedIndices(new Set());
+      setFocusedIndex(null);
+  }, [allItems, currentLevelData, path, updateDataAtCurrentPath]);
+
+  // Outline drag: the drop target is tracked by the grid's dragover handlers, the move happens on dragend
+  const handleTreeDragStart = useCallback((from: JsonPath) => {
+      treeDragRef.current = from;
+      dropTargetRef.current = null;
+  }, []);
+
+  const handleTreeDragEnd = useCallback(() => {
+      const from = treeDragRef.current;
+      const targetIndex = dropTargetRef.current;
+      treeDragRef.current = null;
+      dropTargetRef.current = null;
+      setDropTargetIndex(null);
+      if (!from || targetIndex === null) return;
+
+      // The drop position only means something when cards are shown in array order
+      const index = canReorder && Array.isArray(currentLevelData) ? targetIndex : undefined;
+      try {
+          const moved = moveValue(file.data, from, path, index);
+          onUpdate(moved.data, `Moved ${formatPath(from)} to ${formatPath(moved.path)}`);
+          // Moving an earlier array item shifts the indices on the way to this level
+          const levelPath = moved.path.slice(0, -1);
+          if (pathKey(levelPath) !== pathKey(path)) onPathChange(levelPath);
+          setPendingFocusKey(moved.path[moved.path.length - 1]);
+      } catch (err: any) {
+          message(err.message, { title: 'Move', kind: 'warning' });
+      }
+  }, [canReorder, currentLevelData, file.data, path, onUpdate, onPathChange]);
+
+  // Data position just before (offset 0) or after (offset 1) the focused card; the end when nothing is focused
+  const insertionPosition = useCallback((offset: 0 | 1) => {
+      const item = focusedIndex !== null ? currentData[focusedIndex] : undefined;
+      if (!item) return allItems.length;
+      const position = Array.isArray(currentLevelData)
+          ? item.name as number
+          : allItems.findIndex(entry => entry.name === item.name);
+      return position + offset;
+  }, [focusedIndex, currentData, allItems, currentLevelData]);
+
+  // Arrays get a new item shaped like its siblings; objects ask for the key first
+  const handleInsert = useCallback((position: number) => {
+      if (Array.isArray(currentLevelData)) {
+          updateDataAtCurrentPath(insertIntoArray(currentLevelData, position, buildItemTemplate(currentLevelData)));
+          setPendingFocusKey(Math.min(position, currentLevelData.length));
+      } else if (typeof currentLevelData === 'object' && currentLevelData !== null) {
+          setKeyPrompt({ kind: 'insert', position });
+      }
+  }, [currentLevelData, updateDataAtCurrentPath]);
+
+  // Selected cards, or the focused one
+  const actionTargets = useMemo(() => {
+      const indices = selectedIndices.size > 0 ? Array.from(selectedIndices) : focusedIndex !== null ? [focusedIndex] : [];
+      return indices.map(i => currentData[i]).filter(Boolean);
+  }, [selectedIndices, focusedIndex, currentData]);
+
+  // Replace each target value with [value] or { key: value }
+  const wrapTargets = useCallback((wrap: (value: JsonValue) => JsonValue) => {
+      if (actionTargets.length === 0 || typeof currentLevelData !== 'object' || currentLevelData === null) return;
+      const names = new Set(actionTargets.map(item => item.name));
+      if (Array.isArray(currentLevelData)) {
+          updateDataAtCurrentPath(currentLevelData.map((value, i) => names.has(i) ? wrap(value) : value));
+      } else {
+          const newObj: JsonObject = {};
+          Object.entries(currentLevelData).forEach(([key, value]) => {
+              newObj[key] = names.has(key) ? wrap(value) : value;
+          });
+          updateDataAtCurrentPath(newObj);
+      }
+  }, [actionTargets, currentLevelData, updateDataAtCurrentPath]);
+
+  const handleWrap = useCallback((kind: 'array' | 'object') => {
+      if (actionTargets.length === 0) return;
+      if (kind === 'array') wrapTargets(value => [value]);
+      else setKeyPrompt({ kind: 'wrap' });
+  }, [actionTargets, wrapTargets]);
+
+  const handleKeyPromptSubmit = (key: string, type: ValueType) => {
+      if (!keyPrompt) return;
+      setKeyPrompt(null);
+      if (keyPrompt.kind === 'wrap') {
+          wrapTargets(value => ({ [key]: value }));
+          return;
+      }
+      if (typeof currentLevelData !== 'object' || currentLevelData === null || Array.isArray(currentLevelData)) return;
+      updateDataAtCurrentPath(insertIntoObject(currentLevelData, keyPrompt.position, key, defaultValueFor(type)));
+      setPendingFocusKey(key);
+  };
 
   // Multi-Item Reorder Logic (wrapper for state-based calls)
   const handleMoveItems = useCallback((targetIndex: number) => {
@@ -279,9 +628,61 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
 
   }, [currentData, currentLevelData, updateDataAtCurrentPath, selectedIndices, focusedIndex]);
 
+  // Copy (or cut) the selected cards, or the focused one
+  const handleCopy = useCallback((cut: boolean) => {
+      const entries = actionTargets.map(item => ({ key: item.name, value: item.value }));
+      if (entries.length === 0) return;
+      copyEntries(entries)
+          .then(() => { if (cut) handleDelete(); })
+          .catch(err => console.error('Copy failed:', err));
+  }, [actionTargets, handleDelete]);
+
+  // Arrays insert after the focused card; objects ask first when keys are taken
+  const handlePaste = useCallback((entries: ClipboardEntry[], mode?: PasteConflictMode) => {
+      if (entries.length === 0) return;
+      if (Array.isArray(currentLevelData)) {
+          const position = insertionPosition(1);
+          updateDataAtCurrentPath(pasteIntoArray(currentLevelData, position, entries));
+          setPendingFocusKey(Math.min(position, currentLevelData.length));
+          return;
+      }
+      if (typeof currentLevelData !== 'object' || currentLevelData === null) return;
+
+      const conflicts = findPasteConflicts(currentLevelData, entries);
+      if (conflicts.length > 0 && !mode) {
+          setPendingPaste({ entries, conflicts });
+          return;
+      }
+      const { data, keys } = pasteIntoObject(currentLevelData, entries, mode ?? 'rename');
+      if (keys.length === 0) return;
+      updateDataAtCurrentPath(data);
+      setPendingFocusKey(keys[0]);
+  }, [currentLevelData, insertionPosition, updateDataAtCurrentPath]);
+
+  const handleClipboardPaste = useCallback(async () => {
+      let text: string;
+      try {
+          text = await navigator.clipboard.readText();
+      } catch (err) {
+          console.error('Paste failed:', err);
+          return;
+      }
+      // Our own cards keep their keys; anything else must be JSON
+      let entries = recallEntries(text);
+      if (!entries) {
+          const value = parseClipboardText(text);
+          if (value === undefined) {
+              await message('The clipboard does not contain JSON.', { title: 'Paste', kind: 'info' });
+              return;
+          }
+          entries = entriesFromValue(value, !Array.isArray(currentLevelData));
+      }
+      handlePaste(entries);
+  }, [currentLevelData, handlePaste]);
+
   // Drag Handlers
   const onDragStart = (e: React.DragEvent, index: number) => {
-      if (searchTerm) {
+      if (!canReorder) {
           e.preventDefault();
           return;
       }
@@ -343,7 +744,7 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
       const targetIndex = dropTargetRef.current;
 
       // Only move if we have both data and a valid target
-      if (dragData && targetIndex !== null && !searchTerm) {
+      if (dragData && targetIndex !== null && canReorder) {
           const { indicesToMove, itemsSnapshot } = dragData;
           const indices = Array.from(indicesToMove).sort((a, b) => a - b);
           
@@ -430,7 +831,7 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
   const handleDrillDown = (key: string | number, val: JsonValue) => {
       // Only drill if it's an object or array
       if (typeof val === 'object' && val !== null) {
-          setPath(prev => [...prev, key]);
+          navigateTo([...path, key]);
       } else {
           // Open Modal for primitives as a fallback.
           setSelectedItem({ data: val, name: key, fullPath: [...path, key] });
@@ -439,34 +840,98 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
 
   const handleNavigateUp = () => {
       if (path.length > 0) {
-          setPath(prev => prev.slice(0, -1));
+          navigateTo(path.slice(0, -1));
       }
   };
 
   const handleModalSave = (newData: JsonValue) => {
       if (!selectedItem) return;
-      // ... reuse update logic ...
-      const setDeep = (obj: any, targetPath: (string|number)[], value: any): any => {
-        if (targetPath.length === 0) return value;
-        const [head, ...rest] = targetPath;
-        const copy = Array.isArray(obj) ? [...obj] : { ...obj };
-        const nextObj = obj && obj[head] !== undefined ? obj[head] : (typeof rest[0] === 'number' ? [] : {});
-        copy[head] = setDeep(nextObj, rest, value);
-        return copy;
-      };
-      const newRoot = setDeep(file.data, selectedItem.fullPath, newData);
-      onUpdate(newRoot as JsonObject[]);
+      onUpdate(setAtPath(file.data, selectedItem.fullPath, newData));
       setSelectedItem(null);
   };
 
+  const handleCopyTo = (targetId: string) => {
+      const items = Array.from(selectedIndices)
+          .sort((a, b) => a - b)
+          .map(i => currentData[i])
+          .filter(Boolean);
+      if (items.length > 0) onCopyToDocument(targetId, items);
+      setShowCopyMenu(false);
+  };
+
+  const isArrayLevel = Array.isArray(currentLevelData);
+  const hasFocus = focusedIndex !== null && !!currentData[focusedIndex];
+  const insertOptions: InsertOption[] = isPrimitiveLevel ? [] : [
+      { label: isArrayLevel ? 'Add item' : 'Add key', shortcut: 'A', onSelect: () => handleInsert(allItems.length) },
+      { label: 'Insert after focused', shortcut: 'I', disabled: !hasFocus, onSelect: () => handleInsert(insertionPosition(1)) },
+      { label: 'Insert before focused', shortcut: '⇧ I', disabled: !hasFocus, onSelect: () => handleInsert(insertionPosition(0)) },
+      { label: 'Wrap in array', shortcut: 'W', disabled: actionTargets.length === 0, onSelect: () => handleWrap('array') },
+      { label: 'Wrap in object', shortcut: '⇧ W', disabled: actionTargets.length === 0, onSelect: () => handleWrap('object') }
+  ];
+
+  // Exports write the current level to a new file; the document itself is untouched
+  const exportBaseName = path.length > 0 ? `${stripExtension(file.name)}-${path[path.length - 1]}` : stripExtension(file.name);
+
+  const exportOptions: ExportOption[] = [];
+  if (Array.isArray(currentLevelData)) {
+      exportOptions.push({
+          label: 'JSON Lines (.jsonl)',
+          onSelect: () => {
+              exportTextFile(`${exportBaseName}.jsonl`, JSONL_FILTERS, toJsonLines(currentLevelData))
+                  .catch(err => console.error('Export failed:', err));
+          }
+      });
+      exportOptions.push({
+          label: 'CSV / TSV…',
+          onSelect: () => setShowCsvExport(true)
+      });
+  }
+  if (typeof currentLevelData === 'object' && currentLevelData !== null) {
+      exportOptions.push({
+          label: 'JSON Schema (.schema.json)…',
+          onSelect: () => setGeneratedSchema(generateSchema(currentLevelData, exportBaseName))
+      });
+  }
+
   // Keyboard Navigation & Hotkeys
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // If modal is open, let modal handle it
-      if (selectedItem) return;
+      // If a modal is open (ours or one rendered by App), let modal handle it
+      if (selectedItem || document.querySelector('[role="dialog"]')) return;
 
       const isInputActive = document.activeElement === searchInputRef.current;
-      const isTyping = document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA';
+      // Includes the type switchers on cards, whose arrow keys change the option
+      const isTyping = ['INPUT', 'TEXTAREA', 'SELECT'].includes(document.activeElement?.tagName ?? '');
+
+      // Ctrl+F: document-wide search
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setShowDeepSearch(true);
+        deepSearchInputRef.current?.focus();
+        return;
+      }
+
+      // Ctrl+H: find and replace
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'h') {
+        e.preventDefault();
+        setShowFindReplace(true);
+        return;
+      }
+
+      // Ctrl+C / Ctrl+X / Ctrl+V: cards on the system clipboard (inputs and text selections keep the usual behaviour)
+      if ((e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey && !isTyping && !window.getSelection()?.toString()) {
+        const key = e.key.toLowerCase();
+        if ((key === 'c' || key === 'x') && actionTargets.length > 0) {
+          e.preventDefault();
+          handleCopy(key === 'x');
+          return;
+        }
+        if (key === 'v' && !isPrimitiveLevel) {
+          e.preventDefault();
+          handleClipboardPaste();
+          return;
+        }
+      }
 
       // 's' to focus search
       if (e.key === 's' && !isTyping && !e.ctrlKey && !e.metaKey) {
@@ -527,14 +992,39 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
           return;
       }
 
-      // Don't hijack navigation if user is searching
-      if (isInputActive) return;
+      // 'a' adds at the end, 'i' / Shift+I inserts after / before the focused card, 'w' / Shift+W wraps in an array / object, 'e' bulk edits
+      if (!isTyping && !e.ctrlKey && !e.metaKey && !e.altKey && !isPrimitiveLevel) {
+          const key = e.key.toLowerCase();
+          if (key === 'e' && !e.shiftKey) {
+              e.preventDefault();
+              setShowBulkEdit(true);
+              return;
+          }
+          if (key === 'a' && !e.shiftKey) {
+              e.preventDefault();
+              handleInsert(allItems.length);
+              return;
+          }
+          if (key === 'i' && focusedIndex !== null) {
+              e.preventDefault();
+              handleInsert(insertionPosition(e.shiftKey ? 0 : 1));
+              return;
+          }
+          if (key === 'w') {
+              e.preventDefault();
+              handleWrap(e.shiftKey ? 'object' : 'array');
+              return;
+          }
+      }
+
+      // Don't hijack navigation if user is typing (level search, document search)
+      if (isTyping) return;
 
       const itemCount = currentData.length;
       if (itemCount === 0) return;
 
       // Reordering with Ctrl + Arrow
-      if (e.ctrlKey && focusedIndex !== null && !searchTerm && selectedIndices.size > 0) {
+      if (e.ctrlKey && focusedIndex !== null && canReorder && selectedIndices.size > 0) {
           if (e.key === 'ArrowLeft' || e.key === 'ArrowUp') {
               e.preventDefault();
               // Move block backward: Target is just before the first item of the current selection block
@@ -555,11 +1045,8 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
       if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key) && !e.ctrlKey) {
         e.preventDefault();
 
-        const width = window.innerWidth;
-        let cols = 1;
-        if (width >= 1280) cols = 4;
-        else if (width >= 1024) cols = 3;
-        else if (width >= 768) cols = 2;
+        // The table has one item per row
+        const cols = isTableView ? 1 : getGridColumnCount();
 
         setFocusedIndex((prev) => {
           let nextIndex = prev !== null ? prev : 0;
@@ -597,7 +1084,7 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [currentData, selectedItem, focusedIndex, path, currentLevelData, file.name, searchTerm, handleMoveItems, handleDelete, selectedIndices]);
+  }, [currentData, selectedItem, focusedIndex, path, currentLevelData, file.name, canReorder, handleMoveItems, handleDelete, selectedIndices, isTableView, isPrimitiveLevel, allItems, handleInsert, insertionPosition, handleWrap, actionTargets, handleCopy, handleClipboardPaste]);
 
 
   return (
@@ -615,21 +1102,23 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
           {/* Breadcrumb / Title Bar */}
           <div className="flex items-center gap-2 p-1 bg-surface/50 border border-subtle rounded-lg overflow-x-auto backdrop-blur-sm">
               <button 
-                  onClick={() => setPath([])}
+                  onClick={() => navigateTo([])}
                   className={`flex items-center gap-1.5 px-2 py-0.5 rounded-md text-sm font-bold transition-colors ${path.length === 0 ? 'text-white bg-accent/20' : 'text-text-muted hover:text-white hover:bg-white/5'}`}
               >
                   <Home className="w-3.5 h-3.5" />
                   <span>{file.name}</span>
+                  <ErrorBadge count={errorCounts.get(pathKey([]))} />
               </button>
               
               {path.map((segment, i) => (
                   <div key={i} className="flex items-center gap-1 shrink-0">
                       <BreadcrumbSeparator className="w-3.5 h-3.5 text-text-dim" />
                       <button
-                          onClick={() => setPath(prev => prev.slice(0, i + 1))}
+                          onClick={() => navigateTo(path.slice(0, i + 1))}
                           className={`px-2 py-0.5 rounded-md text-sm font-bold transition-colors ${i === path.length - 1 ? 'text-white bg-accent/20' : 'text-text-muted hover:text-white hover:bg-white/5'}`}
                       >
                           {segment}
+                          <ErrorBadge count={errorCounts.get(pathKey(path.slice(0, i + 1)))} />
                       </button>
                   </div>
               ))}
@@ -637,6 +1126,17 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
 
           <div className="flex flex-col md:flex-row gap-2 md:gap-4 items-center justify-between">
               <div className="flex items-center gap-3">
+                  <button
+                      onClick={(e) => {
+                          e.stopPropagation();
+                          toggleShowTree();
+                      }}
+                      className={`p-1.5 rounded-full border transition-all ${showTree ? 'bg-accent/10 border-accent/30 text-accent' : 'border-transparent hover:bg-surface hover:border-subtle text-text-muted'}`}
+                      title={showTree ? 'Hide outline' : 'Show outline'}
+                      aria-pressed={showTree}
+                  >
+                      <ListTree className="w-4 h-4" />
+                  </button>
                   {path.length > 0 && (
                       <button onClick={handleNavigateUp} className="p-1.5 rounded-full hover:bg-surface border border-transparent hover:border-subtle text-text-muted transition-all">
                           <ChevronLeft className="w-4 h-4" />
@@ -645,9 +1145,148 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
                   <span className="px-2 py-0.5 rounded-full bg-accent/10 border border-accent/20 text-[11px] text-accent font-extrabold shadow-glow">
                   {filteredData.length} items
                   </span>
+                  {viewSort && (
+                      <span className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-surface border border-subtle text-[11px] text-text-muted font-bold">
+                          Sorted: {describeSort(viewSort)}
+                          <button
+                              onClick={(e) => {
+                                  e.stopPropagation();
+                                  setViewSort(null);
+                              }}
+                              className="p-0.5 rounded-full hover:bg-white/10 hover:text-white"
+                              aria-label="Clear sort"
+                          >
+                              <X className="w-3 h-3" />
+                          </button>
+                      </span>
+                  )}
               </div>
 
               <div className="flex items-center gap-2 w-full md:w-auto">
+                  {selectedIndices.size > 0 && copyTargets.length > 0 && (
+                      <div className="relative flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+                          <button
+                              onClick={() => setShowCopyMenu(prev => !prev)}
+                              className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-surface border border-subtle text-xs font-bold text-text-muted hover:text-accent hover:border-accent/30 transition-all"
+                              title="Copy selected items to another tab"
+                          >
+                              <Copy className="w-3.5 h-3.5" />
+                              <span>Copy {selectedIndices.size} to…</span>
+                          </button>
+                          {showCopyMenu && (
+                              <div className="absolute right-0 mt-2 w-56 py-1 bg-surface border border-subtle rounded-lg shadow-2xl z-50 animate-in fade-in zoom-in-95 duration-150">
+                                  {copyTargets.map(target => (
+                                      <button
+                                          key={target.id}
+                                          onClick={() => handleCopyTo(target.id)}
+                                          className="w-full px-3 py-2 text-left text-sm text-text-main hover:bg-highlight truncate"
+                                      >
+                                          {target.name}
+                                      </button>
+                                  ))}
+                              </div>
+                          )}
+                      </div>
+                  )}
+                  <button
+                      onClick={(e) => {
+                          e.stopPropagation();
+                          if (schemaValidation) setShowSchemaPanel(prev => !prev);
+                          else onAttachSchema();
+                      }}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-surface border text-xs font-bold transition-all flex-shrink-0 ${
+                          schemaValidation && schemaValidation.errors.length > 0
+                              ? 'border-red-400/30 text-red-300 hover:border-red-400/60'
+                              : 'border-subtle text-text-muted hover:text-accent hover:border-accent/30'
+                      }`}
+                      title={schemaValidation ? `Validated against ${schemaValidation.schemaName}` : 'Attach a JSON Schema to validate against'}
+                  >
+                      {!schemaValidation ? (
+                          <>
+                              <Shield className="w-3.5 h-3.5" />
+                              <span>Schema</span>
+                          </>
+                      ) : schemaValidation.errors.length > 0 ? (
+                          <>
+                              <ShieldAlert className="w-3.5 h-3.5" />
+                              <span>{schemaValidation.errors.length} error{schemaValidation.errors.length === 1 ? '' : 's'}</span>
+                          </>
+                      ) : (
+                          <>
+                              <ShieldCheck className="w-3.5 h-3.5 text-emerald-400" />
+                              <span>Valid</span>
+                          </>
+                      )}
+                  </button>
+                  {!isPrimitiveLevel && (
+                      <div className="flex items-center p-0.5 rounded-full bg-surface border border-subtle flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+                          <button
+                              onClick={() => onViewModeChange(ViewMode.GRID)}
+                              className={`p-1.5 rounded-full transition-colors ${viewMode === ViewMode.GRID ? 'bg-accent/20 text-accent' : 'text-text-muted hover:text-white'}`}
+                              title="Tile view"
+                              aria-pressed={viewMode === ViewMode.GRID}
+                          >
+                              <LayoutGrid className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                              onClick={() => onViewModeChange(ViewMode.LIST)}
+                              className={`p-1.5 rounded-full transition-colors ${viewMode === ViewMode.LIST ? 'bg-accent/20 text-accent' : 'text-text-muted hover:text-white'}`}
+                              title="Table view"
+                              aria-pressed={viewMode === ViewMode.LIST}
+                          >
+                              <Table className="w-3.5 h-3.5" />
+                          </button>
+                      </div>
+                  )}
+                  {!isPrimitiveLevel && (
+                      <SortMenu
+                          fields={levelFields}
+                          isObjectLevel={!Array.isArray(currentLevelData)}
+                          activeSort={viewSort}
+                          onSortView={(keys) => {
+                              setViewSort(keys);
+                              setFocusedIndex(null);
+                              setSelectedIndices(new Set());
+                          }}
+                          onRewriteOrder={handleRewriteOrder}
+                          onClear={() => setViewSort(null)}
+                      />
+                  )}
+                  <InsertMenu options={insertOptions} />
+                  {!isPrimitiveLevel && (
+                      <button
+                          onClick={(e) => {
+                              e.stopPropagation();
+                              setShowBulkEdit(true);
+                          }}
+                          className="p-2 rounded-full bg-surface border border-subtle text-text-muted hover:text-accent hover:border-accent/30 transition-all flex-shrink-0"
+                          title="Bulk Edit (e)"
+                      >
+                          <PenLine className="w-4 h-4" />
+                      </button>
+                  )}
+                  <ExportMenu options={exportOptions} />
+                  <button
+                      onClick={(e) => {
+                          e.stopPropagation();
+                          setShowFindReplace(true);
+                      }}
+                      className="p-2 rounded-full bg-surface border border-subtle text-text-muted hover:text-accent hover:border-accent/30 transition-all flex-shrink-0"
+                      title="Find and Replace (Ctrl+H)"
+                  >
+                      <Replace className="w-4 h-4" />
+                  </button>
+                  <button
+                      onClick={(e) => {
+                          e.stopPropagation();
+                          setShowDeepSearch(true);
+                          deepSearchInputRef.current?.focus();
+                      }}
+                      className={`p-2 rounded-full bg-surface border transition-all flex-shrink-0 ${showDeepSearch ? 'border-accent/30 text-accent' : 'border-subtle text-text-muted hover:text-accent hover:border-accent/30'}`}
+                      title="Search Whole Document (Ctrl+F)"
+                  >
+                      <ScanSearch className="w-4 h-4" />
+                  </button>
                   <button
                       onClick={() => {
                           const name = path.length > 0 ? path[path.length - 1] : file.name;
@@ -665,21 +1304,142 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
                       <input
                           ref={searchInputRef}
                           type="text"
-                          placeholder="Search... (Press 's')"
+                          placeholder={searchMode === 'query' ? 'price > 10 && has(tags), $..author' : "Search... (Press 's')"}
                           value={searchTerm}
-                          onChange={(e) => setSearchTerm(e.target.value)}
-                          className="block w-full pl-9 pr-3 py-1.5 bg-surface border-2 border-subtle rounded-full text-text-main font-bold placeholder-text-dim placeholder:font-bold focus:outline-none focus:border-accent/50 focus:ring-1 focus:ring-accent/50 text-sm transition-all shadow-sm"
+                          onChange={(e) => onSearchChange(e.target.value)}
+                          spellCheck={searchMode !== 'query'}
+                          className={`block w-full pl-9 pr-9 py-1.5 bg-surface border-2 rounded-full text-text-main font-bold placeholder-text-dim placeholder:font-bold focus:outline-none focus:ring-1 text-sm transition-all shadow-sm ${
+                              compiledQuery.error
+                                  ? 'border-red-500/50 focus:border-red-500/60 focus:ring-red-500/40'
+                                  : 'border-subtle focus:border-accent/50 focus:ring-accent/50'
+                          } ${searchMode === 'query' ? 'font-mono' : ''}`}
                       />
+                      <button
+                          onClick={() => {
+                              onSearchModeChange(searchMode === 'query' ? 'text' : 'query');
+                              searchInputRef.current?.focus();
+                          }}
+                          className={`absolute inset-y-0 right-0 pr-3 flex items-center transition-colors ${searchMode === 'query' ? 'text-accent' : 'text-text-muted hover:text-white'}`}
+                          title={searchMode === 'query' ? 'Query mode: field predicates or JSONPath (click for plain text)' : 'Plain text search (click for query mode)'}
+                          aria-pressed={searchMode === 'query'}
+                      >
+                          <Braces className="h-3.5 w-3.5" />
+                      </button>
+                      {compiledQuery.error && (
+                          <div className="absolute left-0 right-0 top-full mt-1 px-3 py-1 rounded-md bg-red-500/20 border border-red-500/30 text-red-100 text-[11px] font-mono break-words shadow-lg">
+                              {compiledQuery.error}
+                          </div>
+                      )}
                   </div>
               </div>
           </div>
         </div>
       </div>
 
+      <div className="flex gap-6 items-start">
+      {/* Outline */}
+      {showTree && (
+        <TreeSidebar
+          data={file.data}
+          rootName={file.name}
+          currentPath={path}
+          focusedPath={focusedPath}
+          onSelect={revealPath}
+          onDragNodeStart={handleTreeDragStart}
+          onDragNodeEnd={handleTreeDragEnd}
+          onClose={toggleShowTree}
+        />
+      )}
+
+      {/* Level contents; also the drop zone for outline nodes */}
+      <div
+        className="flex-1 min-w-0"
+        onDragOver={(e) => {
+            if (!treeDragRef.current || isPrimitiveLevel) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            // Cards set a precise position first; anywhere else appends
+            if (dropTargetRef.current === null) {
+                dropTargetRef.current = currentData.length;
+                setDropTargetIndex(currentData.length);
+            }
+        }}
+        onDragLeave={(e) => {
+            if (!treeDragRef.current || e.currentTarget.contains(e.relatedTarget as Node)) return;
+            dropTargetRef.current = null;
+            setDropTargetIndex(null);
+        }}
+        onDrop={onDrop}
+      >
+      {/* Document-Wide Search */}
+      {showDeepSearch && (
+        <DeepSearchPanel
+          inputRef={deepSearchInputRef}
+          term={deepSearchTerm}
+          onTermChange={(term) => {
+              setDeepSearchTerm(term);
+              setActiveHitIndex(null);
+          }}
+          result={deepSearchResult}
+          activeIndex={activeHitIndex}
+          onSelectHit={handleSelectHit}
+          onClose={() => setShowDeepSearch(false)}
+        />
+      )}
+
+      {/* Schema Validation Errors */}
+      {showSchemaPanel && schemaValidation && (
+        <SchemaPanel
+          schemaName={schemaValidation.schemaName}
+          errors={schemaValidation.errors}
+          onSelectPath={revealPath}
+          onDetach={() => {
+              setShowSchemaPanel(false);
+              onDetachSchema();
+          }}
+          onClose={() => setShowSchemaPanel(false)}
+        />
+      )}
+
+      {/* JSON Patch Preview */}
+      {patchReview && (
+        <PatchPanel
+          name={patchReview.name}
+          operations={patchReview.operations}
+          outcome={patchReview.outcome}
+          data={file.data}
+          onSelectPath={(target) => getAtPath(file.data, target) === undefined ? revealPath(target.slice(0, -1)) : focusPath(target)}
+          onApply={onApplyPatch}
+          onCancel={onCancelPatch}
+        />
+      )}
+
       {/* Grid */}
-      {currentData.length > 0 ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 relative">
-          {currentData.map((item, index) => {
+      {currentData.length > 0 && isTableView ? (
+        <JsonTable
+          items={currentData}
+          start={gridWindow.start}
+          end={gridWindow.end}
+          paddingTop={gridWindow.paddingTop}
+          paddingBottom={gridWindow.paddingBottom}
+          bodyRef={tableBodyRef}
+          isObjectLevel={!Array.isArray(currentLevelData)}
+          selectedIndices={selectedIndices}
+          focusedIndex={focusedIndex}
+          getErrorCount={(name) => errorCounts.get(pathKey([...path, name]))}
+          onRowClick={handleCardClick}
+          onRowDoubleClick={(index) => handleDrillDown(currentData[index].name, currentData[index].value)}
+          onOpenCell={(index, column) => navigateTo(column === VALUE_COLUMN ? [...path, currentData[index].name] : [...path, currentData[index].name, column])}
+          onCellEdit={handleCellEdit}
+        />
+      ) : currentData.length > 0 ? (
+        <div
+          ref={gridRef}
+          className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 relative ${gridWindow.enabled ? 'auto-rows-[20rem]' : ''}`}
+          style={gridWindow.enabled ? { paddingTop: gridWindow.paddingTop, paddingBottom: gridWindow.paddingBottom } : undefined}
+        >
+          {currentData.slice(gridWindow.start, gridWindow.end).map((item, offset) => {
+            const index = gridWindow.start + offset;
             const isSelected = selectedIndices.has(index);
             const isActive = focusedIndex === index;
             const isDropTargetBefore = dropTargetIndex === index;
@@ -695,7 +1455,7 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
                   data={item.value}
                   isActive={isActive}
                   isSelected={isSelected}
-                  draggable={!searchTerm} 
+                  draggable={canReorder}
                   onDragStart={(e) => onDragStart(e, index)}
                   onDragOver={(e) => onDragOver(e, index)}
                   onDrop={onDrop}
@@ -707,20 +1467,131 @@ const JsonGrid: React.FC<JsonGridProps> = ({ file, onUpdate }) => {
                   }}
                   onDelete={() => handleDelete(index)}
                   onDetailsClick={() => setSelectedItem({ data: item.value, name: item.name, fullPath: [...path, item.name] })}
+                  errorCount={errorCounts.get(pathKey([...path, item.name]))}
+                  diffStatus={patchMarks?.get(String(item.name))}
+                  onValueChange={(value) => handleFieldChange([item.name], value)}
+                  onFieldChange={(field, value) => handleFieldChange([item.name, field], value)}
+                  onFieldRename={(oldKey, newKey) => handleFieldRename(item.name, oldKey, newKey)}
                 />
               </React.Fragment>
             );
           })}
           
           {/* Special case: If dropping at the very end of the array */}
-          {dropTargetIndex === currentData.length && <DropIndicator isEnd />}
+          {dropTargetIndex === currentData.length && gridWindow.end === currentData.length && <DropIndicator isEnd />}
+        </div>
+      ) : isPrimitiveLevel ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+          <JsonCard
+            name={path.length > 0 ? path[path.length - 1] : file.name}
+            data={currentLevelData}
+            isActive={false}
+            isSelected={false}
+            onClick={(e) => e.stopPropagation()}
+            onDoubleClick={(e) => {
+                e.stopPropagation();
+                setSelectedItem({ data: currentLevelData, name: file.name, fullPath: [...path] });
+            }}
+            onDetailsClick={() => setSelectedItem({ data: currentLevelData, name: file.name, fullPath: [...path] })}
+            errorCount={errorCounts.get(pathKey(path))}
+            onValueChange={updateDataAtCurrentPath}
+          />
         </div>
       ) : (
         <div className="flex flex-col items-center justify-center py-24 text-text-dim">
           <Search className="w-12 h-12 mb-4 opacity-20" />
-          <p className="text-lg font-light">No items match your search.</p>
+          <p className="text-lg font-light">
+            {searchTerm ? 'No items match your search.' : `This ${Array.isArray(currentLevelData) ? 'array' : 'object'} is empty.`}
+          </p>
         </div>
       )}
+      </div>
+      </div>
+
+      {/* CSV Export Options */}
+      {showCsvExport && Array.isArray(currentLevelData) && (
+        <CsvExportModal
+          items={currentLevelData}
+          onClose={() => setShowCsvExport(false)}
+          onExport={(text, options) => {
+              const isTsv = options.delimiter === '\t';
+              exportTextFile(`${exportBaseName}.${isTsv ? 'tsv' : 'csv'}`, isTsv ? TSV_FILTERS : CSV_FILTERS, text)
+                  .then(() => setShowCsvExport(false))
+                  .catch(err => console.error('Export failed:', err));
+          }}
+        />
+      )}
+
+      {/* Find and Replace */}
+      {showFindReplace && (
+        <FindReplaceModal
+          data={file.data}
+          levelPath={path}
+          selectedKeys={selectedKeys}
+          onClose={() => setShowFindReplace(false)}
+          onApply={(newData) => {
+              onUpdate(newData);
+              setShowFindReplace(false);
+          }}
+        />
+      )}
+
+      {/* Bulk edit of the selected or filtered cards */}
+      {showBulkEdit && !isPrimitiveLevel && (
+        <BulkEditModal
+          level={currentLevelData as JsonObject | JsonValue[]}
+          selectedKeys={selectedKeys}
+          filteredKeys={filteredKeys}
+          isFiltered={!!searchTerm}
+          fields={levelFields}
+          onClose={() => setShowBulkEdit(false)}
+          onApply={(newLevel, description) => {
+              updateDataAtCurrentPath(newLevel, description);
+              setShowBulkEdit(false);
+          }}
+        />
+      )}
+
+      {/* Key for a new entry or a wrapping object */}
+      {keyPrompt && (
+        <KeyPromptModal
+          title={keyPrompt.kind === 'wrap' ? 'Wrap in Object' : 'Add Key'}
+          confirmLabel={keyPrompt.kind === 'wrap' ? 'Wrap' : 'Add'}
+          existingKeys={keyPrompt.kind === 'wrap' ? [] : allItems.map(item => String(item.name))}
+          initialKey={keyPrompt.kind === 'wrap' ? 'value' : ''}
+          withType={keyPrompt.kind === 'insert'}
+          onClose={() => setKeyPrompt(null)}
+          onSubmit={handleKeyPromptSubmit}
+        />
+      )}
+
+      {/* Paste conflicts at an object level */}
+      {pendingPaste && (
+        <PasteConflictModal
+          conflicts={pendingPaste.conflicts}
+          total={pendingPaste.entries.length}
+          onClose={() => setPendingPaste(null)}
+          onResolve={(mode) => {
+              setPendingPaste(null);
+              handlePaste(pendingPaste.entries, mode);
+          }}
+        />
+      )}
+
+      {/* Generated Schema (editable before export) */}
+      {generatedSchema && (
+        <JsonModal
+          data={generatedSchema}
+          title="Generated JSON Schema"
+          saveLabel="Export"
+          onClose={() => setGeneratedSchema(null)}
+          onSave={(schema) => {
+              exportTextFile(`${exportBaseName}.schema.json`, JSON_FILTERS, JSON.stringify(schema, null, 2))
+                  .then(written => { if (written) setGeneratedSchema(null); })
+                  .catch(err => console.error('Export failed:', err));
+          }}
+        />
+      )}
 
       {/* Detail Modal */}
       {selectedItem && (
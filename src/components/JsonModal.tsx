@@ -6,11 +6,12 @@ interface JsonModalProps {
   data?: JsonValue;
   initialText?: string;
   title?: string;
+  saveLabel?: string; // e.g. "Export" when the result is written elsewhere instead of back into the document
   onClose: () => void;
   onSave: (newData: JsonValue) => void;
 }
 
-const JsonModal: React.FC<JsonModalProps> = ({ data, initialText, title = "Edit Object", onClose, onSave }) => {
+const JsonModal: React.FC<JsonModalProps> = ({ data, initialText, title = "Edit Object", saveLabel = "Save", onClose, onSave }) => {
   const [text, setText] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
@@ -85,7 +86,7 @@ const JsonModal: React.FC<JsonModalProps> = ({ data, initialText, title = "Edit
   };
 
   return (
-    <div id="json-modal-root" className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
+    <div id="json-modal-root" role="dialog" className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
       <div 
         className="absolute inset-0 bg-base/90 backdrop-blur-sm transition-opacity" 
         onClick={onClose}
@@ -125,10 +126,10 @@ const JsonModal: React.FC<JsonModalProps> = ({ data, initialText, title = "Edit
                     : 'bg-accent text-base hover:bg-accent/90 shadow-glow'
                 }
               `}
-              title="Save Changes (Ctrl+S)"
+              title={`${saveLabel} (Ctrl+S)`}
             >
               <SaveIcon className="w-4 h-4" />
-              <span>Save</span>
+              <span>{saveLabel}</span>
             </button>
             
             <div className="w-px h-6 bg-subtle mx-2"></div>
@@ -182,7 +183,7 @@ const JsonModal: React.FC<JsonModalProps> = ({ data, initialText, title = "Edit
         {/* Footer */}
         <div className="px-6 py-3 border-t border-subtle bg-surface text-xs text-text-dim flex justify-between font-mono font-bold shrink-0">
            <span>{text.length} chars, {lineCount} lines</span>
-           <span>{error ? 'Invalid JSON' : 'Ready to Save'}</span>
+           <span>{error ? 'Invalid JSON' : `Ready to ${saveLabel}`}</span>
         </div>
       </div>
     </div>
@@ -0,0 +1,296 @@
+import React, { RefObject, useMemo, useRef, useState } from 'react';
+import { Columns3, EyeOff } from 'lucide-react';
+import { JsonValue } from '../types';
+import { previewText } from '../utils/preview';
+import { EditResult, editText, parseEditedValue } from '../utils/valueEdit';
+
+// Column for items that are not objects (e.g. an array of strings)
+export const VALUE_COLUMN = '(value)';
+
+const DEFAULT_WIDTH = 160;
+const KEY_WIDTH = 80;
+const MIN_WIDTH = 48;
+
+interface TableItem {
+  name: string | number;
+  value: JsonValue;
+}
+
+interface JsonTableProps {
+  items: TableItem[];
+  // Windowed range (see useGridWindow); rows outside it are replaced by spacer rows
+  start: number;
+  end: number;
+  paddingTop: number;
+  paddingBottom: number;
+  bodyRef: RefObject<HTMLTableSectionElement | null>; // Measured by useGridWindow
+  isObjectLevel: boolean;
+  selectedIndices: Set<number>;
+  focusedIndex: number | null;
+  getErrorCount: (name: string | number) => number | undefined;
+  onRowClick: (e: React.MouseEvent, index: number) => void;
+  onRowDoubleClick: (index: number) => void;
+  onOpenCell: (index: number, column: string) => void; // Drill into a nested value
+  onCellEdit: (index: number, column: string, value: JsonValue) => void;
+}
+
+interface EditingCell {
+  index: number;
+  column: string;
+  text: string;
+  error: string | null;
+}
+
+const isPlainObject = (val: JsonValue): val is { [key: string]: JsonValue } =>
+  typeof val === 'object' && val !== null && !Array.isArray(val);
+
+const cellValue = (item: TableItem, column: string): JsonValue | undefined => {
+  if (column === VALUE_COLUMN) return isPlainObject(item.value) ? undefined : item.value;
+  return isPlainObject(item.value) ? item.value[column] : undefined;
+};
+
+const renderCell = (val: JsonValue | undefined): React.ReactNode => {
+  if (val === undefined) return null;
+  if (val === null) return <span className="text-text-dim italic">null</span>;
+  if (typeof val === 'object') return <span className="text-text-dim">{previewText(val, 40)}</span>;
+  if (typeof val === 'string') return <span className="text-text-main">{val}</span>;
+  return <span className="text-accent font-bold">{String(val)}</span>;
+};
+
+const JsonTable: React.FC<JsonTableProps> = ({
+  items,
+  start,
+  end,
+  paddingTop,
+  paddingBottom,
+  bodyRef,
+  isObjectLevel,
+  selectedIndices,
+  focusedIndex,
+  getErrorCount,
+  onRowClick,
+  onRowDoubleClick,
+  onOpenCell,
+  onCellEdit
+}) => {
+  const [widths, setWidths] = useState<Record<string, number>>({});
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+  const resizeRef = useRef<{ column: string, startX: number, startWidth: number } | null>(null);
+
+  // Union of keys in first-seen order; non-object items share one value column
+  const columns = useMemo(() => {
+    const seen = new Set<string>();
+    let hasPrimitive = false;
+    items.forEach(item => {
+      if (isPlainObject(item.value)) Object.keys(item.value).forEach(key => seen.add(key));
+      else hasPrimitive = true;
+    });
+    const all = Array.from(seen);
+    if (hasPrimitive) all.unshift(VALUE_COLUMN);
+    return all;
+  }, [items]);
+
+  const visibleColumns = columns.filter(column => !hidden.has(column));
+  const widthOf = (column: string) => widths[column] ?? DEFAULT_WIDTH;
+  const tableWidth = KEY_WIDTH + visibleColumns.reduce((sum, column) => sum + widthOf(column), 0);
+
+  const startResize = (e: React.MouseEvent, column: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    resizeRef.current = { column, startX: e.clientX, startWidth: widthOf(column) };
+
+    const onMove = (move: MouseEvent) => {
+      const resize = resizeRef.current;
+      if (!resize) return;
+      const width = Math.max(MIN_WIDTH, resize.startWidth + move.clientX - resize.startX);
+      setWidths(prev => ({ ...prev, [resize.column]: width }));
+    };
+    const onUp = () => {
+      resizeRef.current = null;
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const toggleColumn = (column: string) => {
+    setHidden(prev => {
+      const next = new Set(prev);
+      if (next.has(column)) next.delete(column);
+      else next.add(column);
+      return next;
+    });
+  };
+
+  // Primitive (or missing) cells edit in place; nested values open like a drill-down
+  const handleCellDoubleClick = (e: React.MouseEvent, index: number, column: string) => {
+    e.stopPropagation();
+    const item = items[index];
+    const val = cellValue(item, column);
+    if (typeof val === 'object' && val !== null) {
+      onOpenCell(index, column);
+      return;
+    }
+    // A missing value column on an object row has nothing to edit
+    if (column === VALUE_COLUMN && isPlainObject(item.value)) return;
+    // Only objects have keys; a key cell on any other row is empty and stays that way
+    if (column !== VALUE_COLUMN && !isPlainObject(item.value)) return;
+    setEditing({ index, column, text: editText(val), error: null });
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const original = cellValue(items[editing.index], editing.column);
+    // Leaving a missing cell empty does not create the key
+    if (original === undefined && editing.text === '') {
+      setEditing(null);
+      return;
+    }
+    const result: EditResult = parseEditedValue(original, editing.text);
+    if (!result.ok) {
+      setEditing({ ...editing, error: result.error });
+      return;
+    }
+    if (result.value !== original) onCellEdit(editing.index, editing.column, result.value);
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* Column visibility */}
+      <div className="flex justify-end">
+        <div className="relative" onClick={(e) => e.stopPropagation()}>
+          <button
+            onClick={() => setShowColumnMenu(prev => !prev)}
+            className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-surface border border-subtle text-xs font-bold text-text-muted hover:text-accent hover:border-accent/30 transition-all"
+          >
+            <Columns3 className="w-3.5 h-3.5" />
+            <span>Columns{hidden.size > 0 ? ` (${hidden.size} hidden)` : ''}</span>
+          </button>
+          {showColumnMenu && (
+            <>
+              <div className="fixed inset-0 z-40" onClick={() => setShowColumnMenu(false)} />
+              <div className="absolute right-0 mt-2 w-56 max-h-80 overflow-y-auto py-1 bg-surface border border-subtle rounded-lg shadow-2xl z-50 animate-in fade-in zoom-in-95 duration-150">
+                {columns.map(column => (
+                  <label key={column} className="flex items-center gap-2 px-3 py-1.5 text-sm text-text-main hover:bg-highlight cursor-pointer">
+                    <input type="checkbox" className="accent-accent" checked={!hidden.has(column)} onChange={() => toggleColumn(column)} />
+                    <span className="truncate font-mono text-xs">{column}</span>
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-subtle bg-surface">
+        <table className="table-fixed text-xs font-mono border-collapse" style={{ width: tableWidth }}>
+          <colgroup>
+            <col style={{ width: KEY_WIDTH }} />
+            {visibleColumns.map(column => <col key={column} style={{ width: widthOf(column) }} />)}
+          </colgroup>
+          <thead>
+            <tr className="bg-white/5 text-text-muted">
+              <th className="h-9 px-3 text-left font-extrabold border-b border-subtle">{isObjectLevel ? 'key' : '#'}</th>
+              {visibleColumns.map(column => (
+                <th key={column} className="group relative h-9 px-3 text-left font-extrabold border-b border-l border-subtle">
+                  <div className="flex items-center gap-1">
+                    <span className="truncate" title={column}>{column}</span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleColumn(column);
+                      }}
+                      className="ml-auto p-0.5 rounded opacity-0 group-hover:opacity-100 hover:text-white hover:bg-white/10 transition-opacity"
+                      aria-label={`Hide column ${column}`}
+                    >
+                      <EyeOff className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <div
+                    onMouseDown={(e) => startResize(e, column)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="absolute top-0 right-0 w-1.5 h-full cursor-col-resize hover:bg-accent/40"
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody ref={bodyRef}>
+            {paddingTop > 0 && <tr style={{ height: paddingTop }} />}
+            {items.slice(start, end).map((item, offset) => {
+              const index = start + offset;
+              const isSelected = selectedIndices.has(index);
+              const isActive = focusedIndex === index;
+              const errorCount = getErrorCount(item.name);
+
+              return (
+                <tr
+                  key={item.name}
+                  id={`card-${index}`}
+                  onClick={(e) => onRowClick(e, index)}
+                  onDoubleClick={(e) => {
+                    e.stopPropagation();
+                    onRowDoubleClick(index);
+                  }}
+                  className={`
+                    h-9 cursor-pointer transition-colors
+                    ${isSelected ? 'bg-accent/15' : 'hover:bg-white/5'}
+                    ${isActive ? 'outline outline-1 -outline-offset-1 outline-accent/80' : ''}
+                  `}
+                >
+                  <td className="px-3 border-b border-subtle/50 text-text-muted font-extrabold truncate">
+                    {item.name}
+                    {!!errorCount && (
+                      <span className="ml-1.5 px-1.5 rounded-full bg-red-400/15 border border-red-400/30 text-[10px] text-red-300" title={`${errorCount} schema error${errorCount === 1 ? '' : 's'}`}>
+                        {errorCount}
+                      </span>
+                    )}
+                  </td>
+                  {visibleColumns.map(column => {
+                    const isEditing = editing?.index === index && editing.column === column;
+                    return (
+                      <td
+                        key={column}
+                        onDoubleClick={(e) => handleCellDoubleClick(e, index, column)}
+                        className="px-3 border-b border-l border-subtle/50 truncate"
+                      >
+                        {isEditing ? (
+                          <input
+                            autoFocus
+                            value={editing.text}
+                            onChange={(e) => setEditing({ ...editing, text: e.target.value, error: null })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                commitEdit();
+                              } else if (e.key === 'Escape') {
+                                e.stopPropagation();
+                                setEditing(null);
+                              }
+                            }}
+                            onBlur={commitEdit}
+                            onClick={(e) => e.stopPropagation()}
+                            title={editing.error ?? undefined}
+                            className={`w-full px-1 py-0.5 bg-base rounded border text-text-main focus:outline-none ${editing.error ? 'border-red-500/60' : 'border-accent/60'}`}
+                          />
+                        ) : renderCell(cellValue(item, column))}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            {paddingBottom > 0 && <tr style={{ height: paddingBottom }} />}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default JsonTable;
@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { VALUE_TYPES, ValueType } from '../utils/valueEdit';
+
+interface KeyPromptModalProps {
+  title: string;
+  confirmLabel: string;
+  existingKeys: string[]; // Keys the new one must not collide with
+  initialKey?: string;
+  withType?: boolean; // Also ask for the type of the new value
+  onClose: () => void;
+  onSubmit: (key: string, type: ValueType) => void;
+}
+
+const KeyPromptModal: React.FC<KeyPromptModalProps> = ({ title, confirmLabel, existingKeys, initialKey = '', withType = false, onClose, onSubmit }) => {
+  const [key, setKey] = useState(initialKey);
+  const [type, setType] = useState<ValueType>('string');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.select();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const error = key === '' ? null : existingKeys.includes(key) ? `"${key}" already exists here` : null;
+  const canSubmit = key !== '' && !error;
+
+  const handleSubmit = () => {
+    if (canSubmit) onSubmit(key, type);
+  };
+
+  return (
+    <div role="dialog" className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-base border border-subtle rounded-xl shadow-2xl w-full max-w-sm flex flex-col animate-in fade-in zoom-in-95 duration-200 slide-in-from-bottom-4">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-subtle">
+          <h2 className="text-lg font-bold text-text-main">{title}</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <label className="block space-y-1">
+            <span className="block text-xs font-bold text-text-muted uppercase tracking-wide">Key</span>
+            <input
+              ref={inputRef}
+              type="text"
+              value={key}
+              onChange={(e) => setKey(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSubmit(); }}
+              spellCheck={false}
+              className={`w-full px-3 py-2 bg-surface border rounded-md text-sm text-text-main font-mono focus:outline-none focus:ring-1 transition-all ${error ? 'border-red-500/50 focus:ring-red-500/40' : 'border-subtle focus:border-accent focus:ring-accent'}`}
+            />
+            {error && <span className="block text-xs text-red-300">{error}</span>}
+          </label>
+
+          {withType && (
+            <label className="block space-y-1">
+              <span className="block text-xs font-bold text-text-muted uppercase tracking-wide">Type</span>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as ValueType)}
+                className="w-full px-3 py-2 bg-surface border border-subtle rounded-md text-sm text-text-main focus:outline-none focus:border-accent"
+              >
+                {VALUE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-subtle flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-surface hover:bg-highlight border border-subtle rounded-lg text-text-main font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className="px-4 py-2 bg-accent text-base hover:bg-accent/90 rounded-lg font-medium transition-colors shadow-glow disabled:bg-subtle disabled:text-text-dim disabled:shadow-none disabled:cursor-not-allowed"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default KeyPromptModal;
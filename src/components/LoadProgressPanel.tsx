@@ -0,0 +1,46 @@
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+import { LoadProgress } from '../utils/loader';
+import { formatBytes } from '../utils/files';
+
+interface LoadProgressPanelProps {
+  name: string;
+  progress: LoadProgress | null;
+  onCancel: () => void;
+}
+
+const LoadProgressPanel: React.FC<LoadProgressPanelProps> = ({ name, progress, onCancel }) => {
+  const percent = progress && progress.total > 0 ? Math.min(100, Math.round((progress.loaded / progress.total) * 100)) : 0;
+  const isParsing = progress?.phase === 'parsing';
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-5 w-full h-64 rounded-3xl border border-subtle bg-surface p-8">
+      <Loader2 className="w-8 h-8 text-accent animate-spin" />
+
+      <div className="w-full max-w-md space-y-2">
+        <div className="flex items-center justify-between gap-4 text-sm">
+          <span className="font-medium text-text-main truncate">{name}</span>
+          <span className="font-mono text-xs text-text-dim shrink-0">
+            {isParsing ? 'Parsing…' : progress ? `${formatBytes(progress.loaded)} / ${formatBytes(progress.total)}` : 'Opening…'}
+          </span>
+        </div>
+        <div className="h-1.5 w-full bg-base rounded-full overflow-hidden">
+          <div
+            className={`h-full bg-accent transition-all duration-200 ${isParsing ? 'animate-pulse' : ''}`}
+            style={{ width: `${isParsing ? 100 : percent}%` }}
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={onCancel}
+        className="flex items-center gap-2 px-4 py-2 bg-base hover:bg-highlight border border-subtle rounded-lg text-sm text-text-main font-medium transition-colors"
+      >
+        <X className="w-4 h-4" />
+        <span>Cancel</span>
+      </button>
+    </div>
+  );
+};
+
+export default LoadProgressPanel;
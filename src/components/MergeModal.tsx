@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitMerge, X } from 'lucide-react';
+import { JsonPath, JsonValue } from '../types';
+import { DiffStatus, deepEqual, diffFields } from '../utils/jsonDiff';
+import { formatPath } from '../utils/jsonPath';
+import { MergeCard, MergeSide, MergeStatus, applyMerge, planMerge } from '../utils/merge';
+import JsonCard from './JsonCard';
+
+interface MergeModalProps {
+  name: string;
+  base: JsonValue; // As last saved
+  disk: JsonValue; // As it is on disk now
+  ours: JsonValue; // As it is in the editor
+  level: JsonPath; // The level the user is looking at; its cards are merged one by one
+  onApply: (merged: JsonValue) => void;
+  onKeepMine: () => void;
+}
+
+// Rows rendered before "…and N more"
+const ROW_LIMIT = 100;
+
+const STATUS_LABEL: Record<MergeStatus, { text: string, className: string }> = {
+  unchanged: { text: 'Unchanged', className: 'text-text-dim' },
+  ours: { text: 'Changed here', className: 'text-sky-300' },
+  disk: { text: 'Changed on disk', className: 'text-emerald-400' },
+  both: { text: 'Same change on both sides', className: 'text-text-muted' },
+  conflict: { text: 'Conflict', className: 'text-red-400' }
+};
+
+const statusAgainstBase = (base: JsonValue | undefined, value: JsonValue | undefined): DiffStatus => {
+  if (base === undefined) return 'added';
+  if (value === undefined) return 'removed';
+  return deepEqual(base, value) ? 'unchanged' : 'modified';
+};
+
+const MergeModal: React.FC<MergeModalProps> = ({ name, base, disk, ours, level, onApply, onKeepMine }) => {
+  const [keyField, setKeyField] = useState('');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onKeepMine();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onKeepMine]);
+
+  const plan = useMemo(
+    () => planMerge(base, disk, ours, level, { keyField: keyField.trim() || undefined }),
+    [base, disk, ours, level, keyField]
+  );
+
+  const conflicts = plan.cards.filter(card => card.status === 'conflict');
+  const counts = {
+    disk: plan.cards.filter(card => card.status === 'disk').length,
+    ours: plan.cards.filter(card => card.status === 'ours').length
+  };
+  const visibleCards = showUnchanged ? plan.cards : plan.cards.filter(card => card.status !== 'unchanged');
+
+  const chooseAll = (side: MergeSide) => setChoices(Object.fromEntries(conflicts.map(card => [card.id, side])));
+
+  const renderSide = (card: MergeCard, side: 'base' | MergeSide) => {
+    const value = card[side];
+    const label = side === 'base' ? 'Last saved' : side === 'disk' ? 'On disk' : 'Mine';
+    const isConflict = card.status === 'conflict';
+    const chosen = isConflict && side !== 'base' && (choices[card.id] ?? 'ours') === side;
+
+    return (
+      <div className="flex flex-col gap-1.5 min-w-0">
+        <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-wider text-text-dim">
+          <span>{label}</span>
+          {isConflict && side !== 'base' && (
+            <label className={`flex items-center gap-1.5 cursor-pointer ${chosen ? 'text-accent' : 'hover:text-text-main'}`}>
+              <input
+                type="radio"
+                name={`merge-${card.id}`}
+                checked={chosen}
+                onChange={() => setChoices(prev => ({ ...prev, [card.id]: side }))}
+                className="accent-cyan-400"
+              />
+              Keep
+            </label>
+          )}
+        </div>
+        {value === undefined ? (
+          <div className="h-full min-h-24 flex items-center justify-center rounded-xl border border-dashed border-subtle text-xs text-text-dim">
+            Not present
+          </div>
+        ) : (
+          <div className={chosen ? 'rounded-xl ring-2 ring-accent/60' : ''}>
+            <JsonCard
+              name={card.name}
+              data={value}
+              isActive={false}
+              isSelected={false}
+              diffStatus={side === 'base' ? undefined : statusAgainstBase(card.base, value)}
+              fieldDiff={side !== 'base' && card.base !== undefined ? diffFields(card.base, value) : undefined}
+              onClick={() => {}}
+              onDoubleClick={() => {}}
+              onDetailsClick={() => {}}
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div role="dialog" className="fixed inset-0 z-[100] flex items-center justify-center p-4 sm:p-6">
+      <div className="absolute inset-0 bg-base/90 backdrop-blur-sm transition-opacity" />
+
+      <div className="relative w-[90vw] h-[90vh] bg-base rounded-2xl shadow-2xl border border-subtle flex flex-col overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-subtle bg-surface shrink-0 gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <GitMerge className="w-5 h-5 text-accent shrink-0" />
+            <div className="min-w-0">
+              <h3 className="text-lg font-serif font-medium text-white truncate">{name} changed on disk</h3>
+              <p className="text-xs text-text-dim">
+                You have unsaved changes. Choose what to keep, card by card{plan.wholeDocument ? '' : ` at ${formatPath(plan.level)}`}.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3 shrink-0">
+            <span className="px-2 py-0.5 rounded-full border text-[11px] font-extrabold bg-red-500/10 border-red-500/30 text-red-400">
+              {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+            </span>
+            <span className="px-2 py-0.5 rounded-full border text-[11px] font-extrabold bg-emerald-500/10 border-emerald-500/30 text-emerald-400">
+              {counts.disk} from disk
+            </span>
+            <span className="px-2 py-0.5 rounded-full border text-[11px] font-extrabold bg-sky-400/10 border-sky-400/30 text-sky-300">
+              {counts.ours} mine
+            </span>
+            <button
+              onClick={onKeepMine}
+              className="p-2 text-text-muted hover:text-white hover:bg-highlight rounded-lg transition-colors"
+              aria-label="Keep my version"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <div className="flex flex-col md:flex-row gap-2 md:items-center justify-between px-6 py-3 border-b border-subtle/50 shrink-0">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => chooseAll('disk')}
+              disabled={conflicts.length === 0}
+              className="px-3 py-1 rounded-md border border-subtle bg-surface text-xs font-bold text-text-main hover:border-accent/40 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Keep disk for all conflicts
+            </button>
+            <button
+              onClick={() => chooseAll('ours')}
+              disabled={conflicts.length === 0}
+              className="px-3 py-1 rounded-md border border-subtle bg-surface text-xs font-bold text-text-main hover:border-accent/40 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Keep mine for all conflicts
+            </button>
+          </div>
+
+          <div className="flex items-center gap-4">
+            {plan.isArray && (
+              <label className="flex items-center gap-2 text-xs font-bold text-text-muted">
+                <span className="uppercase tracking-wide">Match items by</span>
+                <input
+                  type="text"
+                  value={keyField}
+                  onChange={(e) => {
+                    setKeyField(e.target.value);
+                    setChoices({}); // Card identities change with the key field
+                  }}
+                  placeholder="index (or e.g. id)"
+                  className="w-36 px-3 py-1 bg-surface border border-subtle rounded-md text-sm text-text-main font-mono focus:outline-none focus:border-accent focus:ring-1 focus:ring-accent placeholder:text-text-dim/50"
+                />
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-xs font-bold text-text-muted cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={() => setShowUnchanged(prev => !prev)}
+                className="accent-cyan-400"
+              />
+              <span className="uppercase tracking-wide">Show unchanged</span>
+            </label>
+          </div>
+        </div>
+
+        {/* Cards: one row per card, last saved | on disk | mine */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {visibleCards.slice(0, ROW_LIMIT).map(card => (
+            <div key={card.id} className="space-y-2">
+              <div className="flex items-center gap-3 text-sm">
+                <span className="font-mono font-bold text-text-main">{card.name}</span>
+                <span className={`text-xs font-bold ${STATUS_LABEL[card.status].className}`}>{STATUS_LABEL[card.status].text}</span>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                {renderSide(card, 'base')}
+                {renderSide(card, 'disk')}
+                {renderSide(card, 'ours')}
+              </div>
+            </div>
+          ))}
+          {visibleCards.length > ROW_LIMIT && (
+            <p className="text-xs text-text-dim">…and {visibleCards.length - ROW_LIMIT} more</p>
+          )}
+          {visibleCards.length === 0 && (
+            <div className="flex flex-col items-center justify-center py-24 text-text-dim">
+              <GitMerge className="w-12 h-12 mb-4 opacity-20" />
+              <p className="text-lg font-light">No differences at this level.</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 border-t border-subtle bg-surface flex items-center justify-between gap-4 shrink-0">
+          <span className="text-xs text-text-dim font-mono font-bold">
+            Changes on one side only are taken as they are. ESC keeps your version.
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={onKeepMine}
+              className="px-4 py-2 bg-surface hover:bg-highlight border border-subtle rounded-lg text-text-main font-medium transition-colors"
+            >
+              Keep Mine
+            </button>
+            <button
+              onClick={() => onApply(applyMerge(plan, choices))}
+              className="px-4 py-2 bg-accent text-base hover:bg-accent/90 rounded-lg font-medium transition-colors shadow-glow"
+            >
+              Merge
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeModal;
@@ -0,0 +1,88 @@
+import React, { useEffect } from 'react';
+import { X } from 'lucide-react';
+import { PasteConflictMode } from '../utils/clipboard';
+
+interface PasteConflictModalProps {
+  conflicts: string[]; // Pasted keys that already exist at this level
+  total: number; // All pasted entries
+  onResolve: (mode: PasteConflictMode) => void;
+  onClose: () => void;
+}
+
+// Keys listed before "…and N more"
+const LIST_LIMIT = 12;
+
+const CHOICES: { mode: PasteConflictMode, label: string, description: string }[] = [
+  { mode: 'rename', label: 'Keep Both', description: 'Paste under a new name, e.g. key_copy' },
+  { mode: 'overwrite', label: 'Overwrite', description: 'Replace the existing values' },
+  { mode: 'skip', label: 'Skip', description: 'Only paste keys that are not taken' }
+];
+
+const PasteConflictModal: React.FC<PasteConflictModalProps> = ({ conflicts, total, onResolve, onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div role="dialog" className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-base border border-subtle rounded-xl shadow-2xl w-full max-w-md flex flex-col animate-in fade-in zoom-in-95 duration-200 slide-in-from-bottom-4">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-subtle">
+          <h2 className="text-lg font-bold text-text-main">Paste: Keys Already Exist</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-text-muted">
+            {conflicts.length} of {total} pasted key{total === 1 ? '' : 's'} already exist{conflicts.length === 1 ? 's' : ''} here:
+          </p>
+          <ul className="flex flex-wrap gap-1.5">
+            {conflicts.slice(0, LIST_LIMIT).map(key => (
+              <li key={key} className="px-2 py-0.5 rounded-md bg-surface border border-subtle text-xs font-mono text-text-main">{key}</li>
+            ))}
+            {conflicts.length > LIST_LIMIT && (
+              <li className="px-2 py-0.5 text-xs text-text-dim">…and {conflicts.length - LIST_LIMIT} more</li>
+            )}
+          </ul>
+          <div className="space-y-2">
+            {CHOICES.map((choice, i) => (
+              <button
+                key={choice.mode}
+                autoFocus={i === 0}
+                onClick={() => onResolve(choice.mode)}
+                className="w-full px-4 py-2.5 rounded-lg border border-subtle bg-surface hover:bg-highlight hover:border-accent/30 focus:outline-none focus:border-accent/60 text-left transition-colors"
+              >
+                <span className="block text-sm font-bold text-text-main">{choice.label}</span>
+                <span className="block text-xs text-text-dim">{choice.description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-subtle flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-surface hover:bg-highlight border border-subtle rounded-lg text-text-main font-medium transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default PasteConflictModal;
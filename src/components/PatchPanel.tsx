@@ -0,0 +1,131 @@
+import React from 'react';
+import { AlertTriangle, FileDiff, X } from 'lucide-react';
+import { JsonPath, JsonValue, PatchOperation } from '../types';
+import { formatPath, fromPointer } from '../utils/jsonPath';
+import { PatchOutcome } from '../utils/jsonPatch';
+
+interface PatchPanelProps {
+  name: string; // Patch file name
+  operations: PatchOperation[];
+  outcome: PatchOutcome;
+  data: JsonValue; // The document before the patch, to show pointers as paths
+  onSelectPath: (path: JsonPath) => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+// Operations listed before "…and N more"
+const LIST_LIMIT = 500;
+
+const OP_STYLE: Record<PatchOperation['op'], string> = {
+  add: 'text-emerald-400 border-emerald-500/40',
+  copy: 'text-emerald-400 border-emerald-500/40',
+  remove: 'text-red-400 border-red-500/40',
+  replace: 'text-amber-300 border-amber-400/40',
+  move: 'text-sky-300 border-sky-400/40',
+  test: 'text-text-muted border-subtle'
+};
+
+const preview = (value: JsonValue | undefined): string => {
+  if (value === undefined) return 'nothing';
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 79)}…` : text;
+};
+
+const PatchPanel: React.FC<PatchPanelProps> = ({ name, operations, outcome, data, onSelectPath, onApply, onCancel }) => {
+  const toPath = (pointer: string) => fromPointer(pointer, data);
+  const canApply = outcome.data !== null;
+
+  return (
+    <div
+      className="mb-6 bg-surface/50 border border-subtle rounded-xl overflow-hidden animate-in fade-in duration-200"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-subtle">
+        <div className="flex items-center gap-2 min-w-0 text-sm">
+          <FileDiff className="w-4 h-4 text-accent shrink-0" />
+          <span className="font-bold text-text-main truncate" title={name}>{name}</span>
+          <span className="text-text-dim shrink-0">
+            {operations.length} operation{operations.length === 1 ? '' : 's'}
+          </span>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <button
+            onClick={onApply}
+            disabled={!canApply}
+            className="px-3 py-1 rounded-md bg-accent text-base text-xs font-bold hover:bg-accent/90 transition-colors disabled:bg-subtle disabled:text-text-dim disabled:cursor-not-allowed"
+            title={canApply ? 'Apply as one undoable step' : 'The patch does not apply to this document'}
+          >
+            Apply
+          </button>
+          <button
+            onClick={onCancel}
+            className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+            aria-label="Discard patch"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Why it cannot be applied */}
+      {(outcome.error || outcome.failedTests.length > 0) && (
+        <div className="px-4 py-2 border-b border-subtle bg-red-500/10 space-y-1 text-xs">
+          {outcome.error && (
+            <p className="flex items-center gap-2 text-red-200 font-mono">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+              {outcome.error}
+            </p>
+          )}
+          {outcome.failedTests.length > 0 && (
+            <>
+              <p className="flex items-center gap-2 text-red-200 font-bold">
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                {outcome.failedTests.length} test{outcome.failedTests.length === 1 ? '' : 's'} failed; the document is not in the state this patch expects
+              </p>
+              <ul className="max-h-32 overflow-y-auto space-y-0.5 font-mono">
+                {outcome.failedTests.map(test => (
+                  <li key={test.index}>
+                    <button onClick={() => onSelectPath(toPath(test.path))} className="text-left hover:underline">
+                      <span className="text-text-dim">#{test.index + 1}</span>{' '}
+                      <span className="text-accent">{formatPath(toPath(test.path))}</span>{' '}
+                      <span className="text-red-200/90">expected {preview(test.expected)}, found {preview(test.actual)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Operations */}
+      <ul className="max-h-64 overflow-y-auto divide-y divide-subtle/50">
+        {operations.slice(0, LIST_LIMIT).map((operation, i) => (
+          <li key={i}>
+            <button
+              onClick={() => onSelectPath(toPath(operation.path))}
+              className="w-full flex items-center gap-2 px-4 py-1.5 text-left text-xs hover:bg-highlight transition-colors"
+              title="Go to this location"
+            >
+              <span className={`w-16 shrink-0 px-1.5 rounded border text-center font-bold uppercase tracking-wide text-[10px] ${OP_STYLE[operation.op]}`}>{operation.op}</span>
+              <span className="font-mono font-bold text-text-main truncate">
+                {'from' in operation && <span className="text-text-dim font-normal">{formatPath(toPath(operation.from))} → </span>}
+                {formatPath(toPath(operation.path))}
+              </span>
+              {'value' in operation && (
+                <span className="ml-auto font-mono text-text-dim truncate max-w-[40%]">{preview(operation.value)}</span>
+              )}
+            </button>
+          </li>
+        ))}
+        {operations.length > LIST_LIMIT && (
+          <li className="px-4 py-1.5 text-xs text-text-dim">…and {operations.length - LIST_LIMIT} more</li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default PatchPanel;
@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { FileText, Pin, PinOff, X } from 'lucide-react';
+import { RecentFile, useRecentFilesStore } from '../store/recentFilesStore';
+import { formatBytes } from '../utils/files';
+import { formatPath } from '../utils/jsonPath';
+
+interface RecentFilesProps {
+  onOpen: (file: RecentFile) => void;
+}
+
+const relativeTime = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+
+// "5 minutes ago", "yesterday", falling back to a date after a week
+const formatLastOpened = (timestamp: number): string => {
+  const minutes = Math.round((timestamp - Date.now()) / 60_000);
+  if (minutes > -1) return 'just now';
+  if (minutes > -60) return relativeTime.format(minutes, 'minute');
+  const hours = Math.round(minutes / 60);
+  if (hours > -24) return relativeTime.format(hours, 'hour');
+  const days = Math.round(hours / 24);
+  if (days > -7) return relativeTime.format(days, 'day');
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const RecentFiles: React.FC<RecentFilesProps> = ({ onOpen }) => {
+  const { files, togglePinned, removeFile } = useRecentFilesStore();
+
+  // Pinned files stay on top; each group keeps the most recent first
+  const sorted = useMemo(() => [
+    ...files.filter(file => file.pinned),
+    ...files.filter(file => !file.pinned)
+  ], [files]);
+
+  if (sorted.length === 0) return null;
+
+  const iconButtonClass = 'p-1.5 rounded-md text-text-dim hover:text-white hover:bg-white/10 transition-colors';
+
+  return (
+    <div className="mt-8">
+      <h2 className="mb-2 px-1 text-xs font-bold uppercase tracking-wider text-text-dim">Recent Files</h2>
+      <ul className="rounded-xl border border-subtle bg-surface/50 divide-y divide-subtle/50 overflow-hidden">
+        {sorted.map(file => (
+          <li key={file.filePath} className="group flex items-center gap-3 pr-2 hover:bg-highlight transition-colors">
+            <button
+              onClick={() => onOpen(file)}
+              className="flex-1 min-w-0 flex items-center gap-3 pl-4 py-2.5 text-left"
+              title={file.filePath}
+            >
+              <FileText className={`w-4 h-4 shrink-0 ${file.pinned ? 'text-accent' : 'text-text-muted'}`} />
+              <div className="flex-1 min-w-0">
+                <span className="block text-sm font-bold text-text-main truncate">{file.name}</span>
+                <span className="block text-xs font-mono text-text-dim truncate">
+                  {file.filePath}
+                  {file.path.length > 0 && <span className="text-text-muted"> · {formatPath(file.path)}</span>}
+                </span>
+              </div>
+              <span className="text-xs text-text-dim shrink-0 text-right">
+                <span className="block">{formatBytes(file.size)}</span>
+                <span className="block">{formatLastOpened(file.lastOpened)}</span>
+              </span>
+            </button>
+            <button
+              onClick={() => togglePinned(file.filePath)}
+              className={`${iconButtonClass} ${file.pinned ? 'text-accent' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+              title={file.pinned ? 'Unpin' : 'Pin to the top'}
+              aria-label={file.pinned ? `Unpin ${file.name}` : `Pin ${file.name}`}
+            >
+              {file.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => removeFile(file.filePath)}
+              className={`${iconButtonClass} opacity-0 group-hover:opacity-100 focus:opacity-100`}
+              title="Remove from list"
+              aria-label={`Remove ${file.name} from recent files`}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RecentFiles;
@@ -0,0 +1,141 @@
+import React, { useEffect } from 'react';
+import { AlertTriangle, FileText, GitCompare, X } from 'lucide-react';
+import { RecoveredSession } from '../utils/sessions';
+
+interface RecoveryModalProps {
+  sessions: RecoveredSession[];
+  onRestore: (session: RecoveredSession) => void;
+  onDiscard: (session: RecoveredSession) => void;
+  onShowChanges: (session: RecoveredSession) => void;
+  onClose: () => void; // Decide later; the sessions are offered again on next launch
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const describeChanges = (session: RecoveredSession): string => {
+  if (!session.document.filePath) return 'Never saved to a file';
+  if (!session.summary) return session.originError ?? 'The file could not be compared';
+  const { added, removed, modified } = session.summary;
+  if (added + removed + modified === 0) return 'Same as the file on disk';
+  const parts = [
+    added > 0 && `${added} added`,
+    removed > 0 && `${removed} removed`,
+    modified > 0 && `${modified} modified`
+  ].filter(Boolean);
+  return `Differs from the file: ${parts.join(', ')}`;
+};
+
+const RecoveryModal: React.FC<RecoveryModalProps> = ({ sessions, onRestore, onDiscard, onShowChanges, onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const buttonClass = 'px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors';
+
+  return (
+    <div role="dialog" className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-base border border-subtle rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 slide-in-from-bottom-4">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-subtle">
+          <div>
+            <h2 className="text-lg font-bold text-text-main">Recover Unsaved Work</h2>
+            <p className="text-xs text-text-dim">JExTile did not close normally. These documents had unsaved changes.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Sessions */}
+        <ul className="p-4 space-y-3 overflow-y-auto">
+          {sessions.map(session => {
+            const { document } = session;
+            const { entries, index } = document.history;
+            const hasFile = !!document.filePath;
+            return (
+              <li key={document.id} className="p-4 rounded-lg border border-subtle bg-surface/50 space-y-2">
+                <div className="flex items-start gap-3">
+                  <FileText className="w-5 h-5 text-accent shrink-0 mt-0.5" />
+                  <div className="flex-1 min-w-0">
+                    <span className="block text-sm font-bold text-text-main truncate">{document.name}</span>
+                    <span className="block text-xs font-mono text-text-dim truncate" title={document.filePath ?? undefined}>
+                      {document.filePath ?? 'Opened by drag and drop'}
+                    </span>
+                  </div>
+                  <span className="text-xs text-text-dim shrink-0">
+                    {new Date(session.savedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                  </span>
+                </div>
+
+                <p className={`flex items-center gap-2 text-xs ${session.originError ? 'text-amber-300' : 'text-text-muted'}`}>
+                  {session.originError && <AlertTriangle className="w-3.5 h-3.5 shrink-0" />}
+                  {describeChanges(session)}
+                  <span className="text-text-dim">· {plural(index, 'edit')} in history{entries.length > index ? `, ${entries.length - index} undone` : ''}</span>
+                </p>
+
+                <div className="flex justify-end gap-2">
+                  {hasFile && session.origin && (
+                    <button
+                      onClick={() => onShowChanges(session)}
+                      className={`${buttonClass} mr-auto flex items-center gap-1.5 border-transparent text-text-muted hover:text-accent`}
+                    >
+                      <GitCompare className="w-4 h-4" />
+                      Show changes
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onDiscard(session)}
+                    className={`${buttonClass} border-subtle bg-surface text-text-main hover:border-red-500/40 hover:text-red-300`}
+                  >
+                    Discard
+                  </button>
+                  <button
+                    onClick={() => onRestore(session)}
+                    className={`${buttonClass} border-transparent bg-accent text-base hover:bg-accent/90 shadow-glow`}
+                  >
+                    Restore
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-subtle flex justify-between gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-text-muted hover:text-white transition-colors"
+          >
+            Decide later
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => sessions.forEach(onDiscard)}
+              className="px-4 py-2 bg-surface hover:bg-highlight border border-subtle rounded-lg text-text-main font-medium transition-colors"
+            >
+              Discard All
+            </button>
+            <button
+              onClick={() => sessions.forEach(onRestore)}
+              className="px-4 py-2 bg-accent text-base hover:bg-accent/90 rounded-lg font-medium transition-colors shadow-glow"
+            >
+              Restore All
+            </button>
+          </div>
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryModal;
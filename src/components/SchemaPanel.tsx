@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { CheckCircle2, FileX, X } from 'lucide-react';
+import { JsonPath } from '../types';
+import { formatPath } from '../utils/jsonPath';
+import { SchemaError, groupErrorsByPath, pathKey } from '../utils/schema';
+
+interface SchemaPanelProps {
+  schemaName: string;
+  errors: SchemaError[];
+  onSelectPath: (path: JsonPath) => void;
+  onDetach: () => void;
+  onClose: () => void;
+}
+
+const SchemaPanel: React.FC<SchemaPanelProps> = ({ schemaName, errors, onSelectPath, onDetach, onClose }) => {
+  const groups = useMemo(() => groupErrorsByPath(errors), [errors]);
+
+  return (
+    <div
+      className="mb-6 bg-surface/50 border border-subtle rounded-xl overflow-hidden animate-in fade-in duration-200"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-subtle">
+        <div className="flex items-center gap-2 min-w-0 text-sm">
+          {errors.length === 0
+            ? <CheckCircle2 className="w-4 h-4 text-emerald-400 shrink-0" />
+            : <span className="px-2 py-0.5 rounded-full bg-red-400/10 border border-red-400/30 text-[11px] text-red-300 font-extrabold">{errors.length}</span>
+          }
+          <span className="font-bold text-text-main truncate" title={schemaName}>{schemaName}</span>
+          <span className="text-text-dim">
+            {errors.length === 0 ? 'Document is valid' : `error${errors.length === 1 ? '' : 's'} at ${groups.length} location${groups.length === 1 ? '' : 's'}`}
+          </span>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <button
+            onClick={onDetach}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-bold text-text-muted hover:text-white hover:bg-white/10 transition-colors"
+            title="Stop validating against this schema"
+          >
+            <FileX className="w-3.5 h-3.5" />
+            <span>Detach</span>
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+            aria-label="Close validation panel"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Errors grouped by instance path */}
+      {groups.length > 0 && (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-subtle/50">
+          {groups.map(group => (
+            <li key={pathKey(group.path)}>
+              <button
+                onClick={() => onSelectPath(group.path)}
+                className="w-full px-4 py-2 text-left hover:bg-highlight transition-colors"
+                title="Go to this location"
+              >
+                <div className="text-xs font-mono font-bold text-accent truncate">{formatPath(group.path)}</div>
+                <ul className="mt-0.5 space-y-0.5">
+                  {group.errors.map((error, i) => (
+                    <li key={i} className="text-xs text-red-300/90">
+                      {error.message}
+                      <span className="ml-2 text-text-dim font-mono">{error.keyword}</span>
+                    </li>
+                  ))}
+                </ul>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SchemaPanel;
@@ -4,16 +4,17 @@ import { useSettingsStore } from '../store/settingsStore';
 
 interface SettingsModalProps {
     onClose: () => void;
+    fieldSuggestions?: string[]; // Field names found in the current level, offered while typing
 }
 
-const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
+const SettingsModal: React.FC<SettingsModalProps> = ({ onClose, fieldSuggestions = [] }) => {
     const {
         showTitle, showSubtitle, titleKey, subtitleKey,
         toggleShowTitle, toggleShowSubtitle, setTitleKey, setSubtitleKey
     } = useSettingsStore();
 
     return (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+        <div role="dialog" className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
             <div className="bg-base border border-subtle rounded-xl shadow-2xl w-full max-w-md flex flex-col max-h-[90vh] animate-in fade-in zoom-in-95 duration-200 slide-in-from-bottom-4">
 
                 {/* Header */}
@@ -59,6 +60,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
                                         type="text"
                                         value={titleKey}
                                         onChange={(e) => setTitleKey(e.target.value)}
+                                        list="settings-field-suggestions"
                                         placeholder="e.g., Title, Name, ID"
                                         className="w-full px-3 py-2 bg-base border border-subtle rounded-md text-sm text-text-main focus:outline-none focus:border-accent focus:ring-1 focus:ring-accent transition-all placeholder:text-text-dim/50"
                                     />
@@ -93,6 +95,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
                                         type="text"
                                         value={subtitleKey}
                                         onChange={(e) => setSubtitleKey(e.target.value)}
+                                        list="settings-field-suggestions"
                                         placeholder="e.g., Subtitle, Description"
                                         className="w-full px-3 py-2 bg-base border border-subtle rounded-md text-sm text-text-main focus:outline-none focus:border-accent focus:ring-1 focus:ring-accent transition-all placeholder:text-text-dim/50"
                                     />
@@ -100,6 +103,10 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ onClose }) => {
                             )}
                         </div>
                     </div>
+
+                    <datalist id="settings-field-suggestions">
+                        {fieldSuggestions.map(field => <option key={field} value={field} />)}
+                    </datalist>
                 </div>
 
                 {/* Footer */}
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { ArrowDownWideNarrow, ArrowUpDown, ArrowUpNarrowWide, Plus, Trash2 } from 'lucide-react';
+import { KEY_FIELD, SortComparator, SortKey } from '../utils/sort';
+
+interface SortMenuProps {
+  fields: string[]; // Suggestions for the field inputs
+  isObjectLevel: boolean;
+  activeSort: SortKey[] | null; // Current view-only sort
+  onSortView: (keys: SortKey[]) => void;
+  onRewriteOrder: (keys: SortKey[]) => void;
+  onClear: () => void;
+}
+
+const COMPARATORS: { value: SortComparator, label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'numeric', label: 'Numeric' },
+  { value: 'string', label: 'Text' },
+  { value: 'natural', label: 'Natural (a2 < a10)' },
+  { value: 'date', label: 'Date' }
+];
+
+const SortMenu: React.FC<SortMenuProps> = ({ fields, isObjectLevel, activeSort, onSortView, onRewriteOrder, onClear }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [keys, setKeys] = useState<SortKey[]>([]);
+
+  const open = () => {
+    // Start from the active sort, or a sensible first key for this level
+    setKeys(activeSort ?? [{
+      field: isObjectLevel ? KEY_FIELD : fields[0] ?? '',
+      direction: 'asc',
+      comparator: isObjectLevel ? 'natural' : 'auto'
+    }]);
+    setIsOpen(true);
+  };
+
+  const updateKey = (index: number, patch: Partial<SortKey>) => {
+    setKeys(prev => prev.map((key, i) => i === index ? { ...key, ...patch } : key));
+  };
+
+  const apply = (action: (keys: SortKey[]) => void) => {
+    setIsOpen(false);
+    action(keys);
+  };
+
+  const selectClass = 'px-2 py-1 bg-base border border-subtle rounded-md text-xs text-text-main focus:outline-none focus:border-accent';
+
+  return (
+    <div className="relative flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => isOpen ? setIsOpen(false) : open()}
+        className={`p-2 rounded-full bg-surface border transition-all ${activeSort ? 'border-accent/30 text-accent' : 'border-subtle text-text-muted hover:text-accent hover:border-accent/30'}`}
+        title="Sort this level"
+      >
+        <ArrowUpDown className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Click-away layer */}
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-[26rem] p-3 space-y-3 bg-surface border border-subtle rounded-lg shadow-2xl z-50 animate-in fade-in zoom-in-95 duration-150">
+            <h3 className="text-xs font-bold text-accent uppercase tracking-wider">Sort By</h3>
+
+            <datalist id="sort-field-suggestions">
+              <option value={KEY_FIELD}>{isObjectLevel ? 'Key' : 'Index'}</option>
+              {fields.map(field => <option key={field} value={field} />)}
+            </datalist>
+
+            {keys.map((key, i) => (
+              <div key={i} className="flex items-center gap-1.5">
+                <span className="w-10 text-[10px] text-text-dim font-bold uppercase shrink-0">{i === 0 ? 'Sort' : 'Then'}</span>
+                <input
+                  type="text"
+                  value={key.field}
+                  onChange={(e) => updateKey(i, { field: e.target.value })}
+                  list="sort-field-suggestions"
+                  placeholder="field.path"
+                  spellCheck={false}
+                  className={`${selectClass} flex-1 min-w-0 font-mono`}
+                />
+                <select
+                  value={key.comparator}
+                  onChange={(e) => updateKey(i, { comparator: e.target.value as SortComparator })}
+                  className={selectClass}
+                >
+                  {COMPARATORS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                </select>
+                <button
+                  onClick={() => updateKey(i, { direction: key.direction === 'asc' ? 'desc' : 'asc' })}
+                  className="p-1 text-text-muted hover:text-accent hover:bg-white/10 rounded-md transition-colors"
+                  title={key.direction === 'asc' ? 'Ascending' : 'Descending'}
+                  aria-label={key.direction === 'asc' ? 'Ascending, click for descending' : 'Descending, click for ascending'}
+                >
+                  {key.direction === 'asc' ? <ArrowUpNarrowWide className="w-4 h-4" /> : <ArrowDownWideNarrow className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => setKeys(prev => prev.filter((_, j) => j !== i))}
+                  disabled={keys.length === 1}
+                  className="p-1 text-text-muted hover:text-red-400 hover:bg-white/10 rounded-md transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-text-muted"
+                  aria-label="Remove sort key"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+
+            <button
+              onClick={() => setKeys(prev => [...prev, { field: '', direction: 'asc', comparator: 'auto' }])}
+              className="flex items-center gap-1.5 text-xs font-bold text-text-muted hover:text-accent transition-colors"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              Add tie-break
+            </button>
+
+            <div className="flex items-center justify-between gap-2 pt-2 border-t border-subtle/50">
+              <button
+                onClick={() => apply(() => onClear())}
+                disabled={!activeSort}
+                className="px-3 py-1.5 text-xs font-bold text-text-muted hover:text-white disabled:opacity-30 transition-colors"
+              >
+                Clear
+              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => apply(onSortView)}
+                  className="px-3 py-1.5 bg-base hover:bg-highlight border border-subtle rounded-lg text-xs font-bold text-text-main transition-colors"
+                  title="Only change how the cards are shown; the data keeps its order"
+                >
+                  Sort View
+                </button>
+                <button
+                  onClick={() => apply(onRewriteOrder)}
+                  className="px-3 py-1.5 bg-accent text-base hover:bg-accent/90 rounded-lg text-xs font-bold transition-colors shadow-glow"
+                  title="Reorder the data itself (undoable)"
+                >
+                  Rewrite Order
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SortMenu;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { OpenDocument } from '../types';
+import { isDocumentDirty } from '../utils/history';
+
+interface TabBarProps {
+  documents: OpenDocument[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  onNew: () => void;
+}
+
+const TabBar: React.FC<TabBarProps> = ({ documents, activeId, onSelect, onClose, onNew }) => {
+  return (
+    <div className="container mx-auto px-4 flex items-end gap-1 overflow-x-auto">
+      {documents.map(doc => {
+        const isActive = doc.id === activeId;
+        const isDirty = isDocumentDirty(doc);
+
+        return (
+          <div
+            key={doc.id}
+            onClick={() => onSelect(doc.id)}
+            onAuxClick={(e) => {
+              // Middle-click closes, like a browser tab
+              if (e.button === 1) onClose(doc.id);
+            }}
+            className={`
+              group flex items-center gap-2 pl-3 pr-1.5 py-1.5 rounded-t-lg border border-b-0 text-xs font-bold cursor-pointer select-none shrink-0 max-w-[220px] transition-colors
+              ${isActive
+                ? 'bg-surface border-subtle text-white'
+                : 'bg-transparent border-transparent text-text-muted hover:text-white hover:bg-white/5'
+              }
+            `}
+            title={doc.name}
+          >
+            <span className="truncate">{doc.name}</span>
+            {isDirty && <span className="w-1.5 h-1.5 rounded-full bg-accent shrink-0" title="Unsaved changes" />}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onClose(doc.id);
+              }}
+              className={`
+                p-0.5 rounded hover:bg-white/10 hover:text-white transition-opacity
+                ${isActive ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}
+              `}
+              aria-label={`Close ${doc.name}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        onClick={onNew}
+        className={`
+          p-1.5 mb-0.5 rounded-md text-text-muted hover:text-accent hover:bg-surface transition-colors shrink-0
+          ${activeId === null ? 'text-accent' : ''}
+        `}
+        title="Open another file"
+        aria-label="Open another file"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default TabBar;
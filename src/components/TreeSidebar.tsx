@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, ListTree, X } from 'lucide-react';
+import { JsonPath, JsonValue } from '../types';
+import { isPathPrefix } from '../utils/jsonPath';
+import { pathKey } from '../utils/schema';
+
+interface TreeSidebarProps {
+  data: JsonValue; // Whole document
+  rootName: string;
+  currentPath: JsonPath; // Level shown in the grid
+  focusedPath: JsonPath | null; // Focused card, if any
+  onSelect: (path: JsonPath) => void;
+  onDragNodeStart: (path: JsonPath) => void;
+  onDragNodeEnd: () => void;
+  onClose: () => void;
+}
+
+// Children rendered per expanded node before a "show more" row
+const CHILD_PAGE = 200;
+
+const childEntries = (value: JsonValue): [string | number, JsonValue][] => {
+  if (Array.isArray(value)) return value.map((child, i) => [i, child]);
+  if (typeof value === 'object' && value !== null) return Object.entries(value);
+  return [];
+};
+
+// Short type/size label next to each node
+const describe = (value: JsonValue): { label: string, className: string } => {
+  if (Array.isArray(value)) return { label: `[${value.length}]`, className: 'text-text-dim' };
+  if (value === null) return { label: 'null', className: 'text-text-dim italic' };
+  if (typeof value === 'object') return { label: `{${Object.keys(value).length}}`, className: 'text-text-dim' };
+  if (typeof value === 'string') return { label: value.length > 24 ? `"${value.slice(0, 24)}…"` : `"${value}"`, className: 'text-text-muted' };
+  return { label: String(value), className: 'text-accent' };
+};
+
+interface TreeNodeProps {
+  name: string | number;
+  value: JsonValue;
+  path: JsonPath;
+  depth: number;
+  expanded: Set<string>;
+  limits: Map<string, number>;
+  activePath: JsonPath;
+  currentPath: JsonPath;
+  activeRef: React.RefObject<HTMLButtonElement | null>;
+  onToggle: (path: JsonPath) => void;
+  onShowMore: (path: JsonPath) => void;
+  onSelect: (path: JsonPath) => void;
+  onDragNodeStart: (path: JsonPath) => void;
+  onDragNodeEnd: () => void;
+}
+
+const TreeNode: React.FC<TreeNodeProps> = (props) => {
+  const { name, value, path, depth, expanded, limits, activePath, currentPath, activeRef, onToggle, onShowMore, onSelect, onDragNodeStart, onDragNodeEnd } = props;
+  const key = pathKey(path);
+  const isContainer = typeof value === 'object' && value !== null;
+  const isExpanded = isContainer && expanded.has(key);
+  const isActive = key === pathKey(activePath);
+  const isCurrentLevel = key === pathKey(currentPath);
+  const { label, className } = describe(value);
+
+  // Only expanded nodes build their children
+  const children = isExpanded ? childEntries(value) : [];
+  const limit = limits.get(key) ?? CHILD_PAGE;
+
+  return (
+    <li>
+      <button
+        ref={isActive ? activeRef : undefined}
+        draggable={path.length > 0}
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', String(name));
+          onDragNodeStart(path);
+        }}
+        onDragEnd={onDragNodeEnd}
+        onClick={() => onSelect(path)}
+        onKeyDown={(e) => {
+          // Keep tree keys away from the grid's window-level shortcuts
+          if (e.key === 'ArrowRight' && isContainer && !isExpanded) onToggle(path);
+          else if (e.key === 'ArrowLeft' && isExpanded) onToggle(path);
+          else if (e.key !== 'Enter' && e.key !== ' ') return;
+          e.stopPropagation();
+        }}
+        className={`
+          w-full flex items-center gap-1 pr-2 py-0.5 rounded-md text-left text-xs font-mono transition-colors
+          ${isActive ? 'bg-accent/20 text-white' : isCurrentLevel ? 'bg-white/5 text-white' : 'text-text-main hover:bg-white/5'}
+        `}
+        style={{ paddingLeft: `${depth * 0.75 + 0.25}rem` }}
+        title={typeof value === 'object' && value !== null ? `${Array.isArray(value) ? 'array' : 'object'}, ${label.slice(1, -1)} children` : typeof value}
+      >
+        {isContainer ? (
+          <span
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggle(path);
+            }}
+            className="p-0.5 rounded text-text-muted hover:text-white hover:bg-white/10 shrink-0"
+            aria-label={isExpanded ? 'Collapse' : 'Expand'}
+          >
+            {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          </span>
+        ) : (
+          <span className="w-4 shrink-0" />
+        )}
+        <span className="font-bold truncate">{name}</span>
+        <span className={`ml-auto pl-2 truncate shrink-0 max-w-[50%] ${className}`}>{label}</span>
+      </button>
+
+      {isExpanded && children.length > 0 && (
+        <ul>
+          {children.slice(0, limit).map(([childName, childValue]) => (
+            <TreeNode
+              {...props}
+              key={childName}
+              name={childName}
+              value={childValue}
+              path={[...path, childName]}
+              depth={depth + 1}
+            />
+          ))}
+          {children.length > limit && (
+            <li>
+              <button
+                onClick={() => onShowMore(path)}
+                className="w-full py-0.5 text-left text-[11px] text-text-dim hover:text-accent transition-colors"
+                style={{ paddingLeft: `${(depth + 1) * 0.75 + 1.25}rem` }}
+              >
+                Show {Math.min(CHILD_PAGE, children.length - limit)} more of {children.length - limit}…
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+const TreeSidebar: React.FC<TreeSidebarProps> = ({
+  data,
+  rootName,
+  currentPath,
+  focusedPath,
+  onSelect,
+  onDragNodeStart,
+  onDragNodeEnd,
+  onClose
+}) => {
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set([pathKey([])]));
+  const [limits, setLimits] = useState<Map<string, number>>(new Map());
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const scrolledKeyRef = useRef<string | null>(null);
+  const activePath = focusedPath ?? currentPath;
+  const currentKey = pathKey(currentPath);
+  const activeKey = pathKey(activePath);
+
+  // Follow the grid: open every ancestor of the active node and page far enough to show it
+  useEffect(() => {
+    setExpanded(prev => {
+      const missing = currentPath.map((_, i) => pathKey(currentPath.slice(0, i + 1))).filter(key => !prev.has(key));
+      return missing.length > 0 ? new Set([...prev, ...missing]) : prev;
+    });
+    setLimits(prev => {
+      let next = prev;
+      activePath.forEach((segment, i) => {
+        if (typeof segment !== 'number') return;
+        const key = pathKey(activePath.slice(0, i));
+        if (segment >= (prev.get(key) ?? CHILD_PAGE)) {
+          if (next === prev) next = new Map(prev);
+          next.set(key, (Math.floor(segment / CHILD_PAGE) + 1) * CHILD_PAGE);
+        }
+      });
+      return next;
+    });
+  }, [currentKey, activeKey]);
+
+  // Scroll once per newly active node, as soon as its ancestors have rendered
+  useEffect(() => {
+    if (scrolledKeyRef.current === activeKey || !activeRef.current) return;
+    activeRef.current.scrollIntoView({ block: 'nearest' });
+    scrolledKeyRef.current = activeKey;
+  }, [activeKey, expanded, limits]);
+
+  const handleToggle = (path: JsonPath) => {
+    const key = pathKey(path);
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        // Collapsing also forgets what was open below
+        Array.from(next).forEach(k => {
+          if (k !== key && isPathPrefix(path, JSON.parse(k))) next.delete(k);
+        });
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleShowMore = (path: JsonPath) => {
+    const key = pathKey(path);
+    setLimits(prev => new Map(prev).set(key, (prev.get(key) ?? CHILD_PAGE) + CHILD_PAGE));
+  };
+
+  return (
+    <aside
+      className="sticky top-40 self-start w-72 shrink-0 max-h-[calc(100vh-11rem)] flex flex-col bg-surface/50 border border-subtle rounded-xl overflow-hidden animate-in fade-in duration-200"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-subtle">
+        <span className="flex items-center gap-2 text-xs font-bold text-accent uppercase tracking-wider">
+          <ListTree className="w-3.5 h-3.5" />
+          Outline
+        </span>
+        <button
+          onClick={onClose}
+          className="p-1 text-text-muted hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+          aria-label="Close outline"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <ul className="flex-1 overflow-y-auto p-1.5">
+        <TreeNode
+          name={rootName}
+          value={data}
+          path={[]}
+          depth={0}
+          expanded={expanded}
+          limits={limits}
+          activePath={activePath}
+          currentPath={currentPath}
+          activeRef={activeRef}
+          onToggle={handleToggle}
+          onShowMore={handleShowMore}
+          onSelect={onSelect}
+          onDragNodeStart={onDragNodeStart}
+          onDragNodeEnd={onDragNodeEnd}
+        />
+      </ul>
+    </aside>
+  );
+};
+
+export default TreeSidebar;
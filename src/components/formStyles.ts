@@ -0,0 +1,12 @@
+// Shared form styling for the edit modals (find and replace, bulk edit)
+
+// Segmented radio choice, rendered as a label around a hidden input
+export const radioClass = (checked: boolean, disabled = false) => `
+  flex-1 px-3 py-1.5 rounded-md border text-sm font-medium text-center transition-colors
+  ${disabled ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer'}
+  ${checked ? 'border-accent/60 bg-accent/10 text-white' : 'border-subtle bg-base text-text-muted hover:border-accent/30'}
+`;
+
+export const inputClass = 'w-full px-3 py-2 bg-surface border border-subtle rounded-md text-sm text-text-main font-mono focus:outline-none focus:border-accent focus:ring-1 focus:ring-accent transition-all placeholder:text-text-dim/50';
+
+export const labelClass = 'block text-xs font-bold text-text-muted uppercase tracking-wide';
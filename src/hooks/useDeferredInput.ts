@@ -0,0 +1,9 @@
+import { useDeferredValue } from 'react';
+
+// Slow previews run on a deferred copy of the inputs so typing stays responsive.
+// While isStale is true the preview still shows older inputs, so it must not be applied:
+// applying has to do exactly what the inputs say now.
+export const useDeferredInput = <T,>(value: T): { deferred: T, isStale: boolean } => {
+  const deferred = useDeferredValue(value);
+  return { deferred, isStale: deferred !== value };
+};
@@ -0,0 +1,121 @@
+import { RefObject, useCallback, useEffect, useLayoutEffect, useState } from 'react';
+
+// Levels with more cards than this are windowed: only the rows near the viewport mount
+export const VIRTUALIZE_THRESHOLD = 200;
+
+const OVERSCAN_ROWS = 2;
+
+// Mirrors the card grid's responsive columns (grid-cols-1 md:2 lg:3 xl:4)
+export const getGridColumnCount = (): number => {
+  const width = window.innerWidth;
+  if (width >= 1280) return 4;
+  if (width >= 1024) return 3;
+  if (width >= 768) return 2;
+  return 1;
+};
+
+// Windowed rows get a fixed height so their positions can be computed
+export interface WindowLayout {
+  rowHeightRem: number;
+  gapRem: number;
+  columns: () => number;
+}
+
+// Card grid: 20rem tiles with gap-4
+export const CARD_LAYOUT: WindowLayout = { rowHeightRem: 20, gapRem: 1, columns: getGridColumnCount };
+
+// Table view: one h-9 row per item
+export const TABLE_LAYOUT: WindowLayout = { rowHeightRem: 2.25, gapRem: 0, columns: () => 1 };
+
+interface Viewport {
+  scrollY: number;
+  height: number;
+  cols: number;
+  remPx: number; // Changes with Ctrl+Scroll zoom
+  offsetTop: number; // Page offset of the grid container
+}
+
+export interface GridWindow {
+  enabled: boolean;
+  start: number; // First mounted item index
+  end: number; // One past the last mounted item index
+  paddingTop: number;
+  paddingBottom: number;
+  scrollToIndex: (index: number) => void;
+}
+
+const measure = (container: HTMLElement | null, layout: WindowLayout): Viewport => ({
+  scrollY: window.scrollY,
+  height: window.innerHeight,
+  cols: layout.columns(),
+  remPx: parseFloat(getComputedStyle(document.documentElement).fontSize) || 16,
+  offsetTop: container ? container.getBoundingClientRect().top + window.scrollY : 0
+});
+
+export const useGridWindow = (
+  itemCount: number,
+  containerRef: RefObject<HTMLElement | null>,
+  layout: WindowLayout = CARD_LAYOUT
+): GridWindow => {
+  const enabled = itemCount > VIRTUALIZE_THRESHOLD;
+  const [viewport, setViewport] = useState<Viewport>(() => measure(null, layout));
+
+  useLayoutEffect(() => {
+    if (enabled) setViewport(measure(containerRef.current, layout));
+  }, [enabled, containerRef, layout]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setViewport(measure(containerRef.current, layout)));
+    };
+
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    // Ctrl+Scroll zoom rewrites the root font size inline
+    const observer = new MutationObserver(update);
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: ['style'] });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+      observer.disconnect();
+    };
+  }, [enabled, containerRef, layout]);
+
+  const rowStride = (layout.rowHeightRem + layout.gapRem) * viewport.remPx;
+  const totalRows = Math.ceil(itemCount / viewport.cols);
+
+  const startRow = Math.max(0, Math.floor((viewport.scrollY - viewport.offsetTop) / rowStride) - OVERSCAN_ROWS);
+  const endRow = Math.min(totalRows, Math.ceil((viewport.scrollY + viewport.height - viewport.offsetTop) / rowStride) + OVERSCAN_ROWS);
+
+  // Scroll a card into view even when it is not mounted
+  const scrollToIndex = useCallback((index: number) => {
+    const current = measure(containerRef.current, layout);
+    const rowHeight = layout.rowHeightRem * current.remPx;
+    const top = current.offsetTop + Math.floor(index / current.cols) * (layout.rowHeightRem + layout.gapRem) * current.remPx;
+
+    // Leave room for the sticky header and controls at the top
+    const headerAllowance = current.height / 4;
+    if (top < current.scrollY + headerAllowance || top + rowHeight > current.scrollY + current.height) {
+      window.scrollTo({ top: top - (current.height - rowHeight) / 2, behavior: 'smooth' });
+    }
+  }, [containerRef, layout]);
+
+  if (!enabled) {
+    return { enabled, start: 0, end: itemCount, paddingTop: 0, paddingBottom: 0, scrollToIndex };
+  }
+
+  return {
+    enabled,
+    start: Math.min(itemCount, startRow * viewport.cols),
+    end: Math.min(itemCount, Math.max(startRow, endRow) * viewport.cols),
+    paddingTop: startRow * rowStride,
+    paddingBottom: Math.max(0, totalRows - Math.max(startRow, endRow)) * rowStride,
+    scrollToIndex
+  };
+};
@@ -0,0 +1,58 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { JsonPath } from '../types';
+
+// Unpinned entries beyond this are dropped, oldest first
+const MAX_RECENT = 15;
+
+export interface RecentFile {
+  filePath: string;
+  name: string;
+  size: number; // Bytes, when last opened or saved
+  lastOpened: number;
+  pinned: boolean;
+  path: JsonPath; // Where the grid was when the file was last viewed
+  searchTerm: string;
+}
+
+interface RecentFilesState {
+  files: RecentFile[]; // Most recently opened first
+  recordOpened: (file: { filePath: string, name: string, size: number }) => void;
+  recordView: (filePath: string, path: JsonPath, searchTerm: string) => void;
+  togglePinned: (filePath: string) => void;
+  removeFile: (filePath: string) => void;
+}
+
+const trim = (files: RecentFile[]): RecentFile[] => {
+  let unpinned = 0;
+  return files.filter(file => file.pinned || ++unpinned <= MAX_RECENT);
+};
+
+export const useRecentFilesStore = create<RecentFilesState>()(
+  persist(
+    (set) => ({
+      files: [],
+      recordOpened: ({ filePath, name, size }) => set((state) => {
+        const existing = state.files.find(file => file.filePath === filePath);
+        const entry: RecentFile = existing
+          ? { ...existing, name, size, lastOpened: Date.now() }
+          : { filePath, name, size, lastOpened: Date.now(), pinned: false, path: [], searchTerm: '' };
+        return { files: trim([entry, ...state.files.filter(file => file !== existing)]) };
+      }),
+      recordView: (filePath, path, searchTerm) => set((state) => {
+        const existing = state.files.find(file => file.filePath === filePath);
+        if (!existing || (existing.searchTerm === searchTerm && JSON.stringify(existing.path) === JSON.stringify(path))) return state;
+        return { files: state.files.map(file => file === existing ? { ...file, path, searchTerm } : file) };
+      }),
+      togglePinned: (filePath) => set((state) => ({
+        files: trim(state.files.map(file => file.filePath === filePath ? { ...file, pinned: !file.pinned } : file))
+      })),
+      removeFile: (filePath) => set((state) => ({
+        files: state.files.filter(file => file.filePath !== filePath)
+      })),
+    }),
+    {
+      name: 'jextile-recent-files',
+    }
+  )
+);
@@ -6,10 +6,12 @@ interface SettingsState {
   showSubtitle: boolean;
   titleKey: string;
   subtitleKey: string;
+  showTree: boolean; // Outline sidebar next to the grid
   toggleShowTitle: () => void;
   toggleShowSubtitle: () => void;
   setTitleKey: (key: string) => void;
   setSubtitleKey: (key: string) => void;
+  toggleShowTree: () => void;
 }
 
 export const useSettingsStore = create<SettingsState>()(
@@ -19,10 +21,12 @@ export const useSettingsStore = create<SettingsState>()(
       showSubtitle: false,
       titleKey: 'Title',
       subtitleKey: 'Subtitle',
+      showTree: false,
       toggleShowTitle: () => set((state) => ({ showTitle: !state.showTitle })),
       toggleShowSubtitle: () => set((state) => ({ showSubtitle: !state.showSubtitle })),
       setTitleKey: (key) => set({ titleKey: key }),
       setSubtitleKey: (key) => set({ subtitleKey: key }),
+      toggleShowTree: () => set((state) => ({ showTree: !state.showTree })),
     }),
     {
       name: 'jextile-settings',
@@ -5,10 +5,75 @@ export interface JsonObject {
   [key: string]: JsonValue;
 }
 
+// A location inside a document: object keys and array indices from the root
+export type JsonPath = (string | number)[];
+
 export interface ParsedFile {
   name: string;
   size: number;
-  data: JsonObject[]; // We enforce an array of objects for this app
+  data: JsonValue; // The whole document, whatever its root type
+}
+
+// On-disk representation: a single JSON value, or one JSON value per line
+export type DocumentFormat = 'json' | 'jsonl';
+
+// Plain substring search, or the structured query language (field predicates / JSONPath)
+export type SearchMode = 'text' | 'query';
+
+// RFC 6902 operations, addressed with RFC 6901 JSON Pointers
+export type PatchOperation =
+  | { op: 'add', path: string, value: JsonValue }
+  | { op: 'remove', path: string }
+  | { op: 'replace', path: string, value: JsonValue }
+  | { op: 'move', from: string, path: string }
+  | { op: 'copy', from: string, path: string }
+  | { op: 'test', path: string, value: JsonValue };
+
+// One edit, stored as the patches that redo and undo it
+export interface HistoryEntry {
+  id: string;
+  description: string; // e.g. "Deleted 3 items at items[4]"
+  timestamp: number;
+  checkpoint: string | null; // Name given by the user
+  patch: PatchOperation[]; // Only add, remove and replace
+  inverse: PatchOperation[];
+}
+
+export interface DocumentHistory {
+  entries: HistoryEntry[]; // Oldest first
+  index: number; // How many entries are applied; the ones after it can be redone
+  present: JsonValue;
+  savedIndex: number | null; // The index whose state is on disk, null if none is
+}
+
+// Identifies the version of a file on disk
+export interface FileStamp {
+  size: number;
+  modified: number | null; // Milliseconds since the epoch, when the platform reports it
+}
+
+// A JSON Schema (draft 2020-12) attached to a document for validation
+export interface AttachedSchema {
+  name: string;
+  schema: JsonObject | boolean;
+}
+
+// One open tab: its data, undo/redo stack and where the user is inside it
+export interface OpenDocument {
+  id: string;
+  name: string;
+  size: number;
+  filePath: string | null; // Real location on disk, null until first saved (e.g. drag-and-dropped files)
+  format: DocumentFormat; // How the document is written back on save
+  history: DocumentHistory;
+  savedData: JsonValue | undefined; // The state last loaded from or written to disk; undefined if no state matches it
+  fileStamp: FileStamp | null; // The version of filePath that savedData came from or went to
+  schema: AttachedSchema | null;
+
+  path: JsonPath;
+  searchTerm: string;
+  searchMode: SearchMode;
+  viewMode: ViewMode; // Tile grid or table; shares path and selection
 }
 
 export enum ViewMode {
@@ -0,0 +1,123 @@
+import { JsonObject, JsonValue } from '../types';
+import { deepEqual } from './jsonDiff';
+import { compileValueExpression } from './query';
+import { ValueType, convertValue, renameKey } from './valueEdit';
+
+export type BulkOperation =
+  | { kind: 'set', field: string, expression: string } // Expression as accepted by compileValueExpression
+  | { kind: 'rename', field: string, to: string } // Renamed in place, next to its siblings
+  | { kind: 'delete', field: string }
+  | { kind: 'type', field: string, type: ValueType };
+
+export interface BulkEditResult {
+  data: JsonObject | JsonValue[]; // The whole level with the targets edited
+  changed: number;
+  unchanged: number; // Already as requested, or the field is missing
+  skipped: number; // Not records, missing expression inputs, or a rename onto an existing key
+}
+
+const isPlainObject = (value: JsonValue | undefined): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// address.city; every segment is an object key
+const parseFieldPath = (field: string): string[] => {
+  if (/[[\]]/.test(field)) throw new Error('Array positions such as tags[0] are not supported; use object fields like address.city');
+  return field.split('.').filter(Boolean);
+};
+
+// Outcome of one operation on one record: the new record, or why it was left alone
+type ItemOutcome = JsonObject | 'unchanged' | 'skipped';
+
+// Apply `edit` to the parent object of a dotted field, cloning the containers on the way
+const editParent = (
+  record: JsonObject,
+  path: string[],
+  create: boolean,
+  edit: (parent: JsonObject, key: string) => ItemOutcome
+): ItemOutcome => {
+  const [head, ...rest] = path;
+  if (rest.length === 0) return edit(record, head);
+
+  let child = record[head];
+  if (child === undefined && create) child = {};
+  if (!isPlainObject(child)) return create ? 'skipped' : 'unchanged';
+  const result = editParent(child, rest, create, edit);
+  return typeof result === 'string' ? result : { ...record, [head]: result };
+};
+
+const compile = (op: BulkOperation): ((record: JsonObject) => ItemOutcome) => {
+  const path = parseFieldPath(op.field);
+  if (path.length === 0) throw new Error('Enter a field name');
+
+  switch (op.kind) {
+    case 'set': {
+      if (!op.expression.trim()) throw new Error('Enter a value or expression');
+      const compute = compileValueExpression(op.expression);
+      return record => {
+        const value = compute(record);
+        if (value === undefined) return 'skipped';
+        return editParent(record, path, true, (parent, key) =>
+          key in parent && deepEqual(parent[key], value) ? 'unchanged' : { ...parent, [key]: value });
+      };
+    }
+    case 'rename': {
+      const to = op.to.trim();
+      if (!to) throw new Error('Enter the new field name');
+      return record => editParent(record, path, false, (parent, key) => {
+        if (!(key in parent) || key === to) return 'unchanged';
+        if (to in parent) return 'skipped';
+        return renameKey(parent, key, to);
+      });
+    }
+    case 'delete':
+      return record => editParent(record, path, false, (parent, key) => {
+        if (!(key in parent)) return 'unchanged';
+        const next = { ...parent };
+        delete next[key];
+        return next;
+      });
+    case 'type':
+      return record => editParent(record, path, false, (parent, key) => {
+        const value = parent[key];
+        if (value === undefined) return 'unchanged';
+        if (typeof value === 'object' && value !== null) return 'skipped';
+        const converted = convertValue(value, op.type);
+        return converted === value ? 'unchanged' : { ...parent, [key]: converted };
+      });
+  }
+};
+
+// Apply one operation to the named items of a level; throws for an incomplete operation or a bad expression
+export const applyBulkEdit = (
+  level: JsonObject | JsonValue[],
+  targets: (string | number)[],
+  op: BulkOperation
+): BulkEditResult => {
+  const edit = compile(op);
+  const data: any = Array.isArray(level) ? [...level] : { ...level };
+  let changed = 0, unchanged = 0, skipped = 0;
+
+  targets.forEach(name => {
+    const item = data[name];
+    const outcome: ItemOutcome = isPlainObject(item) ? edit(item) : 'skipped';
+    if (outcome === 'unchanged') unchanged++;
+    else if (outcome === 'skipped') skipped++;
+    else {
+      data[name] = outcome;
+      changed++;
+    }
+  });
+
+  return { data, changed, unchanged, skipped };
+};
+
+// History label for an applied operation, e.g. "Renamed user_id to userId on 12 items"
+export const describeBulkEdit = (op: BulkOperation, changed: number): string => {
+  const items = `${changed} item${changed === 1 ? '' : 's'}`;
+  switch (op.kind) {
+    case 'set': return `Set ${op.field} on ${items}`;
+    case 'rename': return `Renamed ${op.field} to ${op.to.trim()} on ${items}`;
+    case 'delete': return `Deleted ${op.field} from ${items}`;
+    case 'type': return `Converted ${op.field} to ${op.type} on ${items}`;
+  }
+};
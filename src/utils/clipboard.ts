@@ -0,0 +1,78 @@
+import { JsonObject, JsonValue } from '../types';
+import { parseJsonLines } from './formats';
+import { uniqueKey } from './jsonPath';
+
+export interface ClipboardEntry {
+  key: string | number;
+  value: JsonValue;
+}
+
+export type PasteConflictMode = 'rename' | 'overwrite' | 'skip';
+
+// One card is copied as its value, several as an array of their values
+export const entriesToText = (entries: ClipboardEntry[]): string =>
+  JSON.stringify(entries.length === 1 ? entries[0].value : entries.map(entry => entry.value), null, 2);
+
+// The system clipboard only holds text; the last copy is remembered so pasting it back here keeps the keys
+let lastCopy: { text: string, entries: ClipboardEntry[] } | null = null;
+
+export const copyEntries = async (entries: ClipboardEntry[]): Promise<void> => {
+  const text = entriesToText(entries);
+  await navigator.clipboard.writeText(text);
+  lastCopy = { text, entries };
+};
+
+// Cards from our own last copy, or undefined when the clipboard was changed by another app since
+export const recallEntries = (text: string): ClipboardEntry[] | undefined =>
+  lastCopy && lastCopy.text === text ? lastCopy.entries : undefined;
+
+// JSON (or JSON Lines) text from another app; undefined if it is neither
+export const parseClipboardText = (text: string): JsonValue | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const { data, lineErrors } = parseJsonLines(trimmed);
+    return data.length > 0 && lineErrors.length === 0 ? data : undefined;
+  }
+};
+
+const isPlainObject = (value: JsonValue): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Entries for a value pasted from outside: arrays paste their items, objects their keys
+export const entriesFromValue = (value: JsonValue, forObjectLevel: boolean): ClipboardEntry[] => {
+  if (forObjectLevel && isPlainObject(value)) return Object.entries(value).map(([key, v]) => ({ key, value: v }));
+  if (Array.isArray(value)) return value.map((v, i) => ({ key: i, value: v }));
+  return [{ key: forObjectLevel ? 'value' : 0, value }];
+};
+
+// Keys that would collide when pasting into an object
+export const findPasteConflicts = (level: JsonObject, entries: ClipboardEntry[]): string[] =>
+  entries.map(entry => String(entry.key)).filter(key => key in level);
+
+export const pasteIntoArray = (level: JsonValue[], position: number, entries: ClipboardEntry[]): JsonValue[] => {
+  const at = Math.max(0, Math.min(position, level.length));
+  return [...level.slice(0, at), ...entries.map(entry => entry.value), ...level.slice(at)];
+};
+
+// Overwritten keys stay where they were; new and renamed keys are appended
+export const pasteIntoObject = (
+  level: JsonObject,
+  entries: ClipboardEntry[],
+  mode: PasteConflictMode
+): { data: JsonObject, keys: string[] } => {
+  const data: JsonObject = { ...level };
+  const keys: string[] = [];
+  entries.forEach(entry => {
+    let key = String(entry.key);
+    if (key in data) {
+      if (mode === 'skip') return;
+      if (mode === 'rename') key = uniqueKey(data, key);
+    }
+    data[key] = entry.value;
+    keys.push(key);
+  });
+  return { data, keys };
+};
@@ -0,0 +1,149 @@
+import { JsonObject, JsonValue } from '../types';
+
+export type NestedMode = 'flatten' | 'json';
+
+export interface CsvExportOptions {
+  delimiter: ',' | '\t';
+  nested: NestedMode; // Dotted-path columns, or the nested value JSON-encoded in one cell
+}
+
+// Name of the single column used for array items that are not objects
+const VALUE_COLUMN = 'value';
+
+const isPlainObject = (val: JsonValue): val is JsonObject =>
+  typeof val === 'object' && val !== null && !Array.isArray(val);
+
+// { a: { b: 1 }, c: [1] } -> { 'a.b': 1, 'c.0': 1 }
+const flattenRecord = (obj: JsonObject, prefix = '', out: Record<string, JsonValue> = {}): Record<string, JsonValue> => {
+  Object.entries(obj).forEach(([key, val]) => {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(val) && Object.keys(val).length > 0) {
+      flattenRecord(val, column, out);
+    } else if (Array.isArray(val) && val.length > 0) {
+      const asObject: JsonObject = {};
+      val.forEach((item, i) => { asObject[i] = item; });
+      flattenRecord(asObject, column, out);
+    } else {
+      out[column] = val;
+    }
+  });
+  return out;
+};
+
+const toRow = (item: JsonValue, nested: NestedMode): Record<string, JsonValue> => {
+  if (!isPlainObject(item)) return { [VALUE_COLUMN]: item };
+  return nested === 'flatten' ? flattenRecord(item) : { ...item };
+};
+
+const formatCell = (val: JsonValue | undefined, delimiter: string): string => {
+  if (val === undefined || val === null) return '';
+  const text = typeof val === 'object' ? JSON.stringify(val) : String(val);
+  if (text.includes(delimiter) || text.includes('"') || text.includes('\n') || text.includes('\r')) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+// Columns are the union of keys, in first-seen order
+export const recordsToCsv = (items: JsonValue[], options: CsvExportOptions): string => {
+  const rows = items.map(item => toRow(item, options.nested));
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    });
+  });
+
+  const lines = [
+    columns.map(col => formatCell(col, options.delimiter)).join(options.delimiter),
+    ...rows.map(row => columns.map(col => formatCell(row[col], options.delimiter)).join(options.delimiter))
+  ];
+  return lines.join('\n') + '\n';
+};
+
+// RFC 4180 style: quoted fields may contain delimiters, doubled quotes and newlines
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  // Last line without a trailing newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.length > 1 || r[0] !== '');
+};
+
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+// Cells become numbers, booleans, null or (for JSON-encoded exports) nested values where they clearly are one
+export const inferCell = (raw: string): JsonValue => {
+  const text = raw.trim();
+  if (text === '' || text === 'null') return null;
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (NUMBER_PATTERN.test(text)) return Number(text);
+  if ((text.startsWith('{') && text.endsWith('}')) || (text.startsWith('[') && text.endsWith(']'))) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Not JSON after all; keep the text
+    }
+  }
+  return raw;
+};
+
+// First row is the header
+export const parseCsvRecords = (text: string, delimiter: string): JsonObject[] => {
+  const [header, ...rows] = parseDelimited(text, delimiter);
+  if (!header) return [];
+
+  return rows.map(cells => {
+    const record: JsonObject = {};
+    header.forEach((column, i) => {
+      record[column] = inferCell(cells[i] ?? '');
+    });
+    return record;
+  });
+};
@@ -0,0 +1,80 @@
+import { JsonPath, JsonValue } from '../types';
+import { previewText } from './preview';
+
+export interface DeepSearchHit {
+  path: JsonPath;
+  matchedKey: boolean; // The key matched (otherwise a primitive value did)
+  snippet: string;
+  matchStart: number; // Position of the match inside snippet, for highlighting
+  matchLength: number;
+}
+
+export interface DeepSearchResult {
+  hits: DeepSearchHit[];
+  truncated: boolean; // More hits exist than were collected
+}
+
+// Characters of context kept on each side of a match in value snippets
+const SNIPPET_CONTEXT = 24;
+
+const snippetAround = (text: string, index: number, length: number): Omit<DeepSearchHit, 'path' | 'matchedKey'> => {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  return {
+    snippet: prefix + text.slice(start, end) + suffix,
+    matchStart: prefix.length + index - start,
+    matchLength: length
+  };
+};
+
+// Case-insensitive substring search over every key and primitive value in the document, in document order
+export const searchDocument = (root: JsonValue, term: string, limit = 1000): DeepSearchResult => {
+  const hits: DeepSearchHit[] = [];
+  const needle = term.toLowerCase();
+  if (!needle) return { hits, truncated: false };
+
+  // Explicit stack (children pushed in reverse) so deeply nested documents cannot overflow the call stack
+  const stack: { value: JsonValue, path: JsonPath }[] = [{ value: root, path: [] }];
+
+  while (stack.length > 0) {
+    const { value, path } = stack.pop()!;
+
+    // Keys first: the key line of an entry reads before its value
+    const key = path[path.length - 1];
+    if (typeof key === 'string') {
+      const index = key.toLowerCase().indexOf(needle);
+      if (index >= 0) {
+        const label = `${key}: `;
+        hits.push({
+          path,
+          matchedKey: true,
+          snippet: label + previewText(value, SNIPPET_CONTEXT * 2),
+          matchStart: index,
+          matchLength: needle.length
+        });
+        if (hits.length >= limit) return { hits, truncated: true };
+      }
+    }
+
+    if (value !== null && typeof value === 'object') {
+      const entries: [string | number, JsonValue][] = Array.isArray(value)
+        ? value.map((item, i) => [i, item])
+        : Object.entries(value);
+      for (let i = entries.length - 1; i >= 0; i--) {
+        stack.push({ value: entries[i][1], path: [...path, entries[i][0]] });
+      }
+      continue;
+    }
+
+    const text = typeof value === 'string' ? value : String(value);
+    const index = text.toLowerCase().indexOf(needle);
+    if (index >= 0) {
+      hits.push({ path, matchedKey: false, ...snippetAround(text, index, needle.length) });
+      if (hits.length >= limit) return { hits, truncated: true };
+    }
+  }
+
+  return { hits, truncated: false };
+};
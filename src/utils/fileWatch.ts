@@ -0,0 +1,13 @@
+import { invoke } from '@tauri-apps/api/core';
+import { UnlistenFn, listen } from '@tauri-apps/api/event';
+
+// A write usually arrives as a burst of events; wait this long after the last one before reading the file
+export const CHANGE_SETTLE_DELAY = 300;
+
+// The Rust side watches one file per document and reports changes by document id
+export const watchFile = (id: string, path: string): Promise<void> => invoke('watch_file', { id, path });
+
+export const unwatchFile = (id: string): Promise<void> => invoke('unwatch_file', { id });
+
+export const onFileChanged = (handler: (id: string) => void): Promise<UnlistenFn> =>
+  listen<{ id: string }>('file-changed', event => handler(event.payload.id));
@@ -0,0 +1,91 @@
+import { open, save } from '@tauri-apps/plugin-dialog';
+import { readTextFile, stat, writeTextFile } from '@tauri-apps/plugin-fs';
+import { DocumentFormat } from '../types';
+
+export interface LoadedFile {
+  text: string;
+  name: string;
+  size: number;
+  filePath: string | null; // null when the file arrived without a real path (e.g. browser drag-and-drop)
+}
+
+// Where a document came from, without its contents
+export type FileSource = Omit<LoadedFile, 'text'>;
+
+export type DialogFilter = { name: string, extensions: string[] };
+
+export const JSON_FILTERS: DialogFilter[] = [{
+  name: 'JSON File',
+  extensions: ['json']
+}];
+
+export const JSONL_FILTERS: DialogFilter[] = [{
+  name: 'JSON Lines',
+  extensions: ['jsonl', 'ndjson']
+}];
+
+export const CSV_FILTERS: DialogFilter[] = [{
+  name: 'CSV',
+  extensions: ['csv']
+}];
+
+export const TSV_FILTERS: DialogFilter[] = [{
+  name: 'TSV',
+  extensions: ['tsv']
+}];
+
+// Everything the app can open
+export const OPEN_FILTERS: DialogFilter[] = [{
+  name: 'JSON Documents',
+  extensions: ['json', 'jsonl', 'ndjson']
+}, {
+  name: 'Spreadsheet Data',
+  extensions: ['csv', 'tsv']
+}];
+
+// Offer the document's own format first in the save dialog
+export const saveFiltersFor = (format: DocumentFormat): DialogFilter[] =>
+  format === 'jsonl' ? [...JSONL_FILTERS, ...JSON_FILTERS] : [...JSON_FILTERS, ...JSONL_FILTERS];
+
+export const stripExtension = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const fileNameFromPath = (filePath: string): string => {
+  const segments = filePath.split(/[\\/]/);
+  return segments[segments.length - 1] || filePath;
+};
+
+// Read a file from disk by its real path
+export const readFileFromPath = async (filePath: string): Promise<LoadedFile> => {
+  const [text, info] = await Promise.all([readTextFile(filePath), stat(filePath)]);
+  return { text, name: fileNameFromPath(filePath), size: info.size, filePath };
+};
+
+// Native open dialog. Resolves to null if the user cancels.
+// Picking a file through the dialog also whitelists its path for later in-place saves.
+export const pickFileFromDialog = (filters: DialogFilter[] = OPEN_FILTERS): Promise<string | null> => {
+  return open({ multiple: false, directory: false, filters });
+};
+
+export const openFileFromDialog = async (filters: DialogFilter[] = OPEN_FILTERS): Promise<LoadedFile | null> => {
+  const filePath = await pickFileFromDialog(filters);
+  if (!filePath) return null;
+  return readFileFromPath(filePath);
+};
+
+// Save dialog + write, for exports that do not change the document's own location.
+// Resolves to the written path, or null if the user cancels.
+export const exportTextFile = async (defaultPath: string, filters: DialogFilter[], text: string): Promise<string | null> => {
+  const filePath = await save({ defaultPath, filters });
+  if (!filePath) return null;
+  await writeTextFile(filePath, text);
+  return filePath;
+};
@@ -0,0 +1,134 @@
+import { JsonObject, JsonPath, JsonValue } from '../types';
+import { getAtPath, setAtPath } from './jsonPath';
+
+export type ReplaceTarget = 'values' | 'keys' | 'both';
+export type ReplaceValueType = 'string' | 'number' | 'boolean' | 'null';
+
+export interface FindReplaceOptions {
+  find: string;
+  replace: string; // With regex on, $1 / $<name> / $& refer to the match
+  useRegex: boolean;
+  caseSensitive: boolean;
+  target: ReplaceTarget;
+  types: ReplaceValueType[]; // Which primitive values are searched
+}
+
+export interface ReplaceChange {
+  path: JsonPath; // Location before the change (for keys: the old key)
+  kind: 'key' | 'value';
+  before: JsonValue;
+  after: JsonValue;
+  conflict?: boolean; // Key rename skipped because the new key already exists
+}
+
+export interface ReplaceResult {
+  data: JsonValue;
+  changes: ReplaceChange[];
+}
+
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+// Throws a SyntaxError for invalid regular expressions
+export const compileFind = (options: FindReplaceOptions): RegExp => {
+  const source = options.useRegex ? options.find : options.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+};
+
+const typeOf = (value: JsonValue): ReplaceValueType | null => {
+  if (value === null) return 'null';
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return typeof value as ReplaceValueType;
+  return null;
+};
+
+// Non-string values keep their type when the replaced text still spells one (e.g. 200 -> 201); otherwise they become strings
+const retype = (original: JsonValue, text: string): JsonValue => {
+  if (typeof original === 'number' && NUMBER_PATTERN.test(text)) return Number(text);
+  if ((typeof original === 'boolean' || original === null) && (text === 'true' || text === 'false')) return text === 'true';
+  if (original === null && text === 'null') return null;
+  return text;
+};
+
+// Replace inside the children of the container at scopePath (with onlyKeys, just those children: a selection).
+// The container's own key is never renamed. Only changed containers are copied; untouched subtrees stay shared.
+export const findReplace = (
+  root: JsonValue,
+  scopePath: JsonPath,
+  options: FindReplaceOptions,
+  onlyKeys?: (string | number)[]
+): ReplaceResult => {
+  const changes: ReplaceChange[] = [];
+  const scope = getAtPath(root, scopePath);
+  if (!options.find || scope === undefined) return { data: root, changes };
+
+  const pattern = compileFind(options);
+  const replacement = options.useRegex ? options.replace : options.replace.replace(/\$/g, '$$$$');
+  const matchKeys = options.target !== 'values';
+  const matchValues = options.target !== 'keys';
+  const types = new Set(options.types);
+
+  const replaceText = (text: string): string | null => {
+    pattern.lastIndex = 0;
+    if (!pattern.test(text)) return null;
+    pattern.lastIndex = 0;
+    return text.replace(pattern, replacement);
+  };
+
+  const visit = (value: JsonValue, path: JsonPath, filter?: Set<string | number>): JsonValue => {
+    if (Array.isArray(value)) {
+      let copy: JsonValue[] | null = null;
+      value.forEach((item, i) => {
+        if (filter && !filter.has(i)) return;
+        const next = visit(item, [...path, i]);
+        if (next !== item) {
+          if (!copy) copy = [...value];
+          copy[i] = next;
+        }
+      });
+      return copy ?? value;
+    }
+
+    if (value !== null && typeof value === 'object') {
+      let changed = false;
+      const taken = new Set(Object.keys(value));
+      const entries = Object.entries(value).map(([key, item]): [string, JsonValue] => {
+        if (filter && !filter.has(key)) return [key, item];
+        const next = visit(item, [...path, key]);
+        if (next !== item) changed = true;
+
+        if (!matchKeys) return [key, next];
+        const renamed = replaceText(key);
+        if (renamed === null || renamed === key) return [key, next];
+
+        // Renaming onto an existing key would silently drop data
+        if (taken.has(renamed)) {
+          changes.push({ path: [...path, key], kind: 'key', before: key, after: renamed, conflict: true });
+          return [key, next];
+        }
+        changes.push({ path: [...path, key], kind: 'key', before: key, after: renamed });
+        taken.delete(key);
+        taken.add(renamed);
+        changed = true;
+        return [renamed, next];
+      });
+
+      if (!changed) return value;
+      // Rebuilt in the original order so a renamed key keeps its position
+      const copy: JsonObject = {};
+      entries.forEach(([key, item]) => { copy[key] = item; });
+      return copy;
+    }
+
+    const type = typeOf(value);
+    if (!matchValues || !type || !types.has(type)) return value;
+    const replaced = replaceText(String(value));
+    if (replaced === null) return value;
+
+    const next = retype(value, replaced);
+    if (next === value) return value;
+    changes.push({ path, kind: 'value', before: value, after: next });
+    return next;
+  };
+
+  const nextScope = visit(scope, scopePath, onlyKeys ? new Set(onlyKeys) : undefined);
+  return { data: nextScope === scope ? root : setAtPath(root, scopePath, nextScope), changes };
+};
@@ -0,0 +1,101 @@
+import { DocumentFormat, JsonValue } from '../types';
+import { parseCsvRecords } from './csv';
+
+export interface LineError {
+  line: number; // 1-based
+  message: string;
+}
+
+export interface ParseResult {
+  data: JsonValue;
+  format: DocumentFormat;
+  lineErrors: LineError[]; // Only JSON Lines files report per-line problems
+  imported: boolean; // Converted from a format that is not written back (CSV/TSV); saves as JSON
+}
+
+const JSONL_EXTENSIONS = ['jsonl', 'ndjson'];
+const DELIMITED_EXTENSIONS: Record<string, string> = { csv: ',', tsv: '\t' };
+
+export const extensionOf = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+export const formatFromName = (name: string): DocumentFormat | null => {
+  const ext = extensionOf(name);
+  if (JSONL_EXTENSIONS.includes(ext)) return 'jsonl';
+  if (ext === 'json') return 'json';
+  return null;
+};
+
+// One JSON value per non-empty line. Bad lines are reported instead of failing the whole file.
+export const parseJsonLines = (text: string): { data: JsonValue[], lineErrors: LineError[] } => {
+  const data: JsonValue[] = [];
+  const lineErrors: LineError[] = [];
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      data.push(JSON.parse(line));
+    } catch (e: any) {
+      lineErrors.push({ line: i + 1, message: e.message });
+    }
+  });
+
+  return { data, lineErrors };
+};
+
+// Content sniffing for files without a telling extension: the first line and most of the
+// following ones are each valid JSON on their own (a stray bad line should not defeat detection)
+const looksLikeJsonLines = (text: string): boolean => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10);
+  if (lines.length < 2) return false;
+
+  const isValid = (line: string) => {
+    try {
+      JSON.parse(line);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  const validCount = lines.filter(isValid).length;
+  return isValid(lines[0]) && validCount >= 2 && validCount * 2 >= lines.length;
+};
+
+// Parse file contents, picking JSON or JSON Lines by extension first and by content second.
+// Throws (like JSON.parse) when the text is neither.
+export const parseDocumentText = (text: string, name: string): ParseResult => {
+  const delimiter = DELIMITED_EXTENSIONS[extensionOf(name)];
+  if (delimiter) {
+    return { data: parseCsvRecords(text, delimiter), format: 'json', lineErrors: [], imported: true };
+  }
+
+  if (formatFromName(name) === 'jsonl') {
+    const { data, lineErrors } = parseJsonLines(text);
+    if (data.length === 0 && lineErrors.length > 0) {
+      throw new SyntaxError(`No valid JSON lines (first error on line ${lineErrors[0].line}: ${lineErrors[0].message})`);
+    }
+    return { data, format: 'jsonl', lineErrors, imported: false };
+  }
+
+  try {
+    return { data: JSON.parse(text), format: 'json', lineErrors: [], imported: false };
+  } catch (err) {
+    if (looksLikeJsonLines(text)) {
+      const { data, lineErrors } = parseJsonLines(text);
+      return { data, format: 'jsonl', lineErrors, imported: false };
+    }
+    throw err;
+  }
+};
+
+// JSON Lines has no representation for a non-array root; such a document is written as a single line
+export const toJsonLines = (data: JsonValue): string => {
+  const items = Array.isArray(data) ? data : [data];
+  return items.map(item => JSON.stringify(item)).join('\n') + '\n';
+};
+
+export const serializeDocument = (data: JsonValue, format: DocumentFormat): string => {
+  return format === 'jsonl' ? toJsonLines(data) : JSON.stringify(data, null, 2);
+};
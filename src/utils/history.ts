@@ -0,0 +1,79 @@
+import { DocumentHistory, HistoryEntry, JsonValue, OpenDocument } from '../types';
+import { applyPatch, describePatch, diffValues } from './jsonPatch';
+
+// Entries are patches, so this is cheap even for large documents
+export const MAX_HISTORY = 1000;
+
+// `saved`: the starting state is what is on disk
+export const createHistory = (present: JsonValue, saved = true): DocumentHistory => ({
+  entries: [],
+  index: 0,
+  present,
+  savedIndex: saved ? 0 : null
+});
+
+// Records the change from 'present' to newData as a new entry; a redoable tail is dropped
+export const pushHistory = (curr: DocumentHistory, newData: JsonValue, description?: string): DocumentHistory => {
+  const { patch, inverse } = diffValues(curr.present, newData);
+  if (patch.length === 0) return curr;
+
+  const entry: HistoryEntry = {
+    id: crypto.randomUUID(),
+    description: description ?? describePatch(curr.present, patch),
+    timestamp: Date.now(),
+    checkpoint: null,
+    patch,
+    inverse
+  };
+
+  let entries = [...curr.entries.slice(0, curr.index), entry];
+  // The saved state can no longer be reached once it was in the dropped tail
+  let savedIndex = curr.savedIndex !== null && curr.savedIndex > curr.index ? null : curr.savedIndex;
+
+  // Enforce history limit
+  const overflow = entries.length - MAX_HISTORY;
+  if (overflow > 0) {
+    entries = entries.slice(overflow);
+    if (savedIndex !== null) savedIndex = savedIndex >= overflow ? savedIndex - overflow : null;
+  }
+
+  return { entries, index: entries.length, present: newData, savedIndex };
+};
+
+export const undoHistory = (curr: DocumentHistory): DocumentHistory => {
+  if (curr.index === 0) return curr;
+  return {
+    ...curr,
+    index: curr.index - 1,
+    present: applyPatch(curr.present, curr.entries[curr.index - 1].inverse)
+  };
+};
+
+export const redoHistory = (curr: DocumentHistory): DocumentHistory => {
+  if (curr.index === curr.entries.length) return curr;
+  return {
+    ...curr,
+    index: curr.index + 1,
+    present: applyPatch(curr.present, curr.entries[curr.index].patch)
+  };
+};
+
+// Undo or redo until `index` entries are applied
+export const jumpToHistory = (curr: DocumentHistory, index: number): DocumentHistory => {
+  let next = curr;
+  while (next.index > index) next = undoHistory(next);
+  while (next.index < index && next.index < next.entries.length) next = redoHistory(next);
+  return next;
+};
+
+// Name an entry (or clear its name with null)
+export const setCheckpoint = (curr: DocumentHistory, entryId: string, name: string | null): DocumentHistory => ({
+  ...curr,
+  entries: curr.entries.map(entry => entry.id === entryId ? { ...entry, checkpoint: name } : entry)
+});
+
+// The present state was just written to disk
+export const markSaved = (curr: DocumentHistory): DocumentHistory => ({ ...curr, savedIndex: curr.index });
+
+// Undo and redo rebuild the document, so the saved state is tracked by position rather than by reference
+export const isDocumentDirty = (doc: OpenDocument): boolean => doc.history.index !== doc.history.savedIndex;
@@ -0,0 +1,69 @@
+import { BaseDirectory, mkdir, readTextFile, stat, writeTextFile } from '@tauri-apps/plugin-fs';
+import { DocumentHistory, FileStamp, HistoryEntry, JsonValue, OpenDocument } from '../types';
+
+// Edit histories live in the app data directory, one file per document path
+const HISTORY_DIR = 'history';
+const STORE_VERSION = 1;
+
+interface StoredHistory {
+  version: number;
+  filePath: string;
+  stamp: FileStamp; // The file version the entries lead up to
+  savedIndex: number; // Entries after it were not saved, and come back as redoable
+  entries: HistoryEntry[];
+}
+
+// FNV-1a, enough to spread paths over file names; the path itself is checked on load
+const hashPath = (filePath: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < filePath.length; i++) {
+    hash ^= filePath.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const historyFileFor = (filePath: string) => `${HISTORY_DIR}/${hashPath(filePath)}.json`;
+
+export const readFileStamp = async (filePath: string): Promise<FileStamp> => {
+  const info = await stat(filePath);
+  return { size: info.size, modified: info.mtime ? info.mtime.getTime() : null };
+};
+
+export const sameStamp = (a: FileStamp | null, b: FileStamp | null): boolean =>
+  !!a && !!b && a.size === b.size && a.modified === b.modified;
+
+// Store the edits that lead to the saved state of a file (and any unsaved ones after it)
+export const persistHistory = async (doc: OpenDocument): Promise<void> => {
+  const { filePath, fileStamp, history } = doc;
+  if (!filePath || !fileStamp || history.savedIndex === null || history.entries.length === 0) return;
+
+  const stored: StoredHistory = {
+    version: STORE_VERSION,
+    filePath,
+    stamp: fileStamp,
+    savedIndex: history.savedIndex,
+    entries: history.entries
+  };
+  await mkdir(HISTORY_DIR, { baseDir: BaseDirectory.AppData, recursive: true });
+  await writeTextFile(historyFileFor(filePath), JSON.stringify(stored), { baseDir: BaseDirectory.AppData });
+};
+
+// The stored history for a file, if one exists for exactly the version on disk.
+// `present` must be that version, freshly loaded.
+export const restoreHistory = async (filePath: string, stamp: FileStamp, present: JsonValue): Promise<DocumentHistory | null> => {
+  let stored: StoredHistory;
+  try {
+    stored = JSON.parse(await readTextFile(historyFileFor(filePath), { baseDir: BaseDirectory.AppData }));
+  } catch {
+    return null; // Nothing stored yet
+  }
+
+  if (stored.version !== STORE_VERSION || stored.filePath !== filePath || !sameStamp(stored.stamp, stamp)) return null;
+  return {
+    entries: stored.entries,
+    index: stored.savedIndex,
+    present,
+    savedIndex: stored.savedIndex
+  };
+};
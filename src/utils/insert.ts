@@ -0,0 +1,61 @@
+import { JsonObject, JsonValue } from '../types';
+import { defaultValueFor, valueTypeOf } from './valueEdit';
+
+// Siblings looked at when building a template for a new array item
+const TEMPLATE_SAMPLE = 100;
+
+const isPlainObject = (value: JsonValue): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Most frequent type among the samples (first seen wins ties)
+const dominantType = (samples: JsonValue[]) => {
+  const counts = new Map<ReturnType<typeof valueTypeOf>, number>();
+  samples.forEach(sample => {
+    const type = valueTypeOf(sample);
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  });
+  let best = valueTypeOf(samples[0]);
+  counts.forEach((count, type) => {
+    if (count > (counts.get(best) ?? 0)) best = type;
+  });
+  return best;
+};
+
+// Empty value shaped like the siblings: records get the union of their keys (nested records too), with empty defaults
+export const buildItemTemplate = (siblings: JsonValue[]): JsonValue => {
+  const samples = siblings.slice(0, TEMPLATE_SAMPLE);
+  // Nothing to copy from
+  if (samples.length === 0) return null;
+
+  const type = dominantType(samples);
+  if (type !== 'object') return defaultValueFor(type);
+
+  const valuesByKey = new Map<string, JsonValue[]>();
+  samples.filter(isPlainObject).forEach(record => {
+    Object.entries(record).forEach(([key, value]) => {
+      const values = valuesByKey.get(key);
+      if (values) values.push(value);
+      else valuesByKey.set(key, [value]);
+    });
+  });
+
+  const template: JsonObject = {};
+  valuesByKey.forEach((values, key) => {
+    template[key] = buildItemTemplate(values);
+  });
+  return template;
+};
+
+// Insert a value into an array at a position
+export const insertIntoArray = (array: JsonValue[], index: number, value: JsonValue): JsonValue[] => {
+  const at = Math.max(0, Math.min(index, array.length));
+  return [...array.slice(0, at), value, ...array.slice(at)];
+};
+
+// Insert a key into an object at a position, keeping the order of the others
+export const insertIntoObject = (obj: JsonObject, index: number, key: string, value: JsonValue): JsonObject => {
+  const entries = Object.entries(obj).filter(([k]) => k !== key);
+  const at = Math.max(0, Math.min(index, entries.length));
+  entries.splice(at, 0, [key, value]);
+  return Object.fromEntries(entries);
+};
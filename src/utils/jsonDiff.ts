@@ -0,0 +1,168 @@
+import { JsonObject, JsonValue } from '../types';
+
+export type DiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface DiffOptions {
+  // Line up array items by this field (e.g. 'id') instead of by index
+  keyField?: string;
+}
+
+// One aligned child of a level: the same item on both sides, or an item that exists on one side only
+export interface DiffEntry {
+  id: string; // Stable identity for rendering
+  name: string | number; // Key or index to display (the "after" side wins when both exist)
+  beforeKey?: string | number;
+  afterKey?: string | number;
+  before?: JsonValue;
+  after?: JsonValue;
+  status: DiffStatus;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+}
+
+const isPlainObject = (val: JsonValue | undefined): val is JsonObject =>
+  typeof val === 'object' && val !== null && !Array.isArray(val);
+
+export const deepEqual = (a: JsonValue | undefined, b: JsonValue | undefined): boolean => {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, i) => deepEqual(item, b[i]));
+  }
+
+  const aKeys = Object.keys(a);
+  const bObj = b as JsonObject;
+  if (aKeys.length !== Object.keys(bObj).length) return false;
+  return aKeys.every(key => key in bObj && deepEqual((a as JsonObject)[key], bObj[key]));
+};
+
+const statusOf = (before: JsonValue | undefined, after: JsonValue | undefined, hasBefore: boolean, hasAfter: boolean): DiffStatus => {
+  if (!hasBefore) return 'added';
+  if (!hasAfter) return 'removed';
+  return deepEqual(before, after) ? 'unchanged' : 'modified';
+};
+
+export const keyValueOf = (item: JsonValue, keyField: string): string | undefined => {
+  if (!isPlainObject(item) || !(keyField in item)) return undefined;
+  const val = item[keyField];
+  return typeof val === 'object' && val !== null ? JSON.stringify(val) : String(val);
+};
+
+const diffArraysByKey = (before: JsonValue[], after: JsonValue[], keyField: string): DiffEntry[] => {
+  const beforeByKey = new Map<string, number>();
+  before.forEach((item, i) => {
+    const key = keyValueOf(item, keyField);
+    if (key !== undefined && !beforeByKey.has(key)) beforeByKey.set(key, i);
+  });
+
+  const matchedBefore = new Set<number>();
+  const entries: DiffEntry[] = after.map((item, i) => {
+    const key = keyValueOf(item, keyField);
+    const beforeIndex = key !== undefined ? beforeByKey.get(key) : undefined;
+
+    if (beforeIndex === undefined || matchedBefore.has(beforeIndex)) {
+      return { id: `a${i}`, name: i, afterKey: i, after: item, status: 'added' };
+    }
+
+    matchedBefore.add(beforeIndex);
+    return {
+      id: `k${key}`,
+      name: i,
+      beforeKey: beforeIndex,
+      afterKey: i,
+      before: before[beforeIndex],
+      after: item,
+      status: statusOf(before[beforeIndex], item, true, true)
+    };
+  });
+
+  // Items that disappeared are listed after the surviving ones
+  before.forEach((item, i) => {
+    if (!matchedBefore.has(i)) {
+      entries.push({ id: `r${i}`, name: i, beforeKey: i, before: item, status: 'removed' });
+    }
+  });
+
+  return entries;
+};
+
+// Align the children of two values. Containers of different kinds (or primitives) have no aligned children.
+export const diffChildren = (before: JsonValue | undefined, after: JsonValue | undefined, options: DiffOptions = {}): DiffEntry[] => {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (options.keyField) return diffArraysByKey(before, after, options.keyField);
+
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, i) => {
+      const hasBefore = i < before.length;
+      const hasAfter = i < after.length;
+      return {
+        id: `i${i}`,
+        name: i,
+        beforeKey: hasBefore ? i : undefined,
+        afterKey: hasAfter ? i : undefined,
+        before: before[i],
+        after: after[i],
+        status: statusOf(before[i], after[i], hasBefore, hasAfter)
+      };
+    });
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...Object.keys(after), ...Object.keys(before).filter(key => !(key in after))];
+    return keys.map(key => {
+      const hasBefore = key in before;
+      const hasAfter = key in after;
+      return {
+        id: `o${key}`,
+        name: key,
+        beforeKey: hasBefore ? key : undefined,
+        afterKey: hasAfter ? key : undefined,
+        before: before[key],
+        after: after[key],
+        status: statusOf(before[key], after[key], hasBefore, hasAfter)
+      };
+    });
+  }
+
+  return [];
+};
+
+// Per-field status of a modified card, used for highlights inside JsonCard.
+// Only changed fields are listed.
+export const diffFields = (before: JsonValue | undefined, after: JsonValue | undefined): Record<string, DiffStatus> => {
+  const fields: Record<string, DiffStatus> = {};
+  const isContainer = (val: JsonValue | undefined) => typeof val === 'object' && val !== null;
+  if (!isContainer(before) || !isContainer(after) || Array.isArray(before) !== Array.isArray(after)) return fields;
+
+  diffChildren(before, after).forEach(entry => {
+    if (entry.status !== 'unchanged') fields[String(entry.name)] = entry.status;
+  });
+  return fields;
+};
+
+// Count changed leaves (an added or removed container counts once)
+export const summarizeDiff = (before: JsonValue | undefined, after: JsonValue | undefined, options: DiffOptions = {}): DiffSummary => {
+  const summary: DiffSummary = { added: 0, removed: 0, modified: 0 };
+
+  const walk = (a: JsonValue | undefined, b: JsonValue | undefined) => {
+    const entries = diffChildren(a, b, options);
+    if (entries.length === 0) {
+      if (!deepEqual(a, b)) summary.modified++;
+      return;
+    }
+    entries.forEach(entry => {
+      if (entry.status === 'added') summary.added++;
+      else if (entry.status === 'removed') summary.removed++;
+      else if (entry.status === 'modified') walk(entry.before, entry.after);
+    });
+  };
+
+  if (!deepEqual(before, after)) walk(before, after);
+  return summary;
+};
@@ -0,0 +1,361 @@
+import { JsonObject, JsonPath, JsonValue, PatchOperation } from '../types';
+import { DiffStatus, deepEqual } from './jsonDiff';
+import { formatPath, fromPointer, getAtPath, isPathPrefix, setAtPath, toPointer } from './jsonPath';
+
+// A patch and the patch that takes its result back to where it started
+export interface PatchPair {
+  patch: PatchOperation[];
+  inverse: PatchOperation[];
+}
+
+const isPlainObject = (value: JsonValue | undefined): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Adding a key appends it, so key-level operations only keep the order when removed and added keys sit after the shared ones
+const keepsKeyOrder = (before: string[], after: string[], inBoth: (key: string) => boolean): boolean => {
+  const shared = before.filter(inBoth);
+  const sharedAfter = after.filter(inBoth);
+  if (shared.some((key, i) => key !== sharedAfter[i])) return false;
+
+  const tailOnly = (keys: string[]) => {
+    const firstOwn = keys.findIndex(key => !inBoth(key));
+    return firstOwn === -1 || keys.slice(firstOwn).every(key => !inBoth(key));
+  };
+  return tailOnly(before) && tailOnly(after);
+};
+
+// True when every item of `short` appears in `long` in the same order (by reference)
+const isSubsequence = (short: JsonValue[], long: JsonValue[]): boolean => {
+  let j = 0;
+  for (let i = 0; i < long.length && j < short.length; i++) {
+    if (long[i] === short[j]) j++;
+  }
+  return j === short.length;
+};
+
+// Structural diff. Updates share every untouched subtree, so reference checks skip most of the document.
+export const diffValues = (before: JsonValue, after: JsonValue): PatchPair => {
+  const patch: PatchOperation[] = [];
+  const undo: PatchOperation[] = [];
+  const emit = (op: PatchOperation, inverse: PatchOperation) => {
+    patch.push(op);
+    undo.push(inverse);
+  };
+
+  const replace = (a: JsonValue, b: JsonValue, path: JsonPath) => {
+    const pointer = toPointer(path);
+    emit({ op: 'replace', path: pointer, value: b }, { op: 'replace', path: pointer, value: a });
+  };
+
+  const walkArray = (a: JsonValue[], b: JsonValue[], path: JsonPath) => {
+    // Common head and tail, then only the middle differs
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let end = 0;
+    while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+    const aMid = a.slice(start, a.length - end);
+    const bMid = b.slice(start, b.length - end);
+
+    const at = (index: number) => toPointer([...path, start + index]);
+
+    if (aMid.length === bMid.length) {
+      // Reordered items are stored as one replacement rather than as every item turning into another
+      const known = new Set(aMid);
+      if (aMid.length > 1 && bMid.every(item => known.has(item) && typeof item === 'object' && item !== null)) {
+        replace(a, b, path);
+        return;
+      }
+      aMid.forEach((item, i) => walk(item, bMid[i], [...path, start + i]));
+      return;
+    }
+
+    if (aMid.length > bMid.length && isSubsequence(bMid, aMid)) {
+      // Only removals
+      let kept = 0;
+      aMid.forEach(item => {
+        if (kept < bMid.length && item === bMid[kept]) {
+          kept++;
+        } else {
+          emit({ op: 'remove', path: at(kept) }, { op: 'add', path: at(kept), value: item });
+        }
+      });
+      return;
+    }
+
+    if (bMid.length > aMid.length && isSubsequence(aMid, bMid)) {
+      // Only insertions
+      let kept = 0;
+      bMid.forEach((item, i) => {
+        if (kept < aMid.length && item === aMid[kept]) {
+          kept++;
+        } else {
+          emit({ op: 'add', path: at(i), value: item }, { op: 'remove', path: at(i) });
+        }
+      });
+      return;
+    }
+
+    // Anything else: pair up by position, then trim or extend the tail
+    const common = Math.min(aMid.length, bMid.length);
+    for (let i = 0; i < common; i++) walk(aMid[i], bMid[i], [...path, start + i]);
+    for (let i = common; i < aMid.length; i++) {
+      emit({ op: 'remove', path: at(common) }, { op: 'add', path: at(common), value: aMid[i] });
+    }
+    for (let i = common; i < bMid.length; i++) {
+      emit({ op: 'add', path: at(i), value: bMid[i] }, { op: 'remove', path: at(i) });
+    }
+  };
+
+  const walkObject = (a: JsonObject, b: JsonObject, path: JsonPath) => {
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    if (!keepsKeyOrder(aKeys, bKeys, key => key in a && key in b)) {
+      replace(a, b, path);
+      return;
+    }
+
+    // Removed in reverse so the inverse adds them back in their original order
+    aKeys.filter(key => !(key in b)).reverse().forEach(key => {
+      const pointer = toPointer([...path, key]);
+      emit({ op: 'remove', path: pointer }, { op: 'add', path: pointer, value: a[key] });
+    });
+    bKeys.forEach(key => {
+      if (key in a) {
+        walk(a[key], b[key], [...path, key]);
+      } else {
+        const pointer = toPointer([...path, key]);
+        emit({ op: 'add', path: pointer, value: b[key] }, { op: 'remove', path: pointer });
+      }
+    });
+  };
+
+  const walk = (a: JsonValue, b: JsonValue, path: JsonPath) => {
+    if (a === b) return;
+    if (Array.isArray(a) && Array.isArray(b)) {
+      walkArray(a, b, path);
+    } else if (isPlainObject(a) && isPlainObject(b)) {
+      walkObject(a, b, path);
+    } else {
+      replace(a, b, path);
+    }
+  };
+
+  walk(before, after, []);
+  return { patch, inverse: undo.reverse() };
+};
+
+type Fail = (reason: string) => never;
+
+// The three primitive edits; move and copy are built from them
+const editAt = (current: JsonValue, pointer: string, kind: 'add' | 'remove' | 'replace', value: JsonValue, fail: Fail): JsonValue => {
+  if (pointer === '') {
+    if (kind === 'remove') fail('the root cannot be removed');
+    return value;
+  }
+
+  const path = fromPointer(pointer, current);
+  const parentPath = path.slice(0, -1);
+  const key = path[path.length - 1];
+  const parent = getAtPath(current, parentPath);
+
+  if (Array.isArray(parent)) {
+    const index = kind === 'add' && key === '-' ? parent.length : key;
+    if (typeof index !== 'number') return fail(`"${key}" is not an array index`);
+    if (index > (kind === 'add' ? parent.length : parent.length - 1)) fail(`index ${index} is out of bounds`);
+
+    const next = [...parent];
+    if (kind === 'add') next.splice(index, 0, value);
+    else if (kind === 'remove') next.splice(index, 1);
+    else next[index] = value;
+    return setAtPath(current, parentPath, next);
+  }
+
+  if (isPlainObject(parent)) {
+    const name = String(key);
+    if (kind !== 'add' && !(name in parent)) fail(`"${name}" does not exist`);
+
+    let next: JsonObject;
+    if (kind === 'remove') {
+      next = { ...parent };
+      delete next[name];
+    } else {
+      next = { ...parent, [name]: value };
+    }
+    return setAtPath(current, parentPath, next);
+  }
+
+  return fail(`${formatPath(parentPath)} is not an object or array`);
+};
+
+const valueAt = (current: JsonValue, pointer: string): JsonValue | undefined =>
+  getAtPath(current, fromPointer(pointer, current));
+
+// One operation; `test` only checks and is left to the callers
+const applyOperation = (current: JsonValue, operation: PatchOperation, fail: Fail): JsonValue => {
+  switch (operation.op) {
+    case 'add':
+    case 'replace':
+      return editAt(current, operation.path, operation.op, operation.value, fail);
+    case 'remove':
+      return editAt(current, operation.path, 'remove', null, fail);
+    case 'move':
+    case 'copy': {
+      const value = valueAt(current, operation.from);
+      if (value === undefined) return fail(`"${operation.from}" does not exist`);
+      if (operation.op === 'copy') return editAt(current, operation.path, 'add', value, fail);
+      if (operation.path.startsWith(`${operation.from}/`)) fail('a value cannot be moved into itself');
+      return editAt(editAt(current, operation.from, 'remove', null, fail), operation.path, 'add', value, fail);
+    }
+    case 'test':
+      return current;
+  }
+};
+
+const failFor = (operation: PatchOperation, i: number): Fail => (reason) => {
+  throw new Error(`Operation ${i + 1} (${operation.op} ${operation.path || '/'}): ${reason}`);
+};
+
+const testPasses = (current: JsonValue, operation: { path: string, value: JsonValue }) =>
+  deepEqual(valueAt(current, operation.path), operation.value);
+
+// Apply operations one after another, cloning only the containers they touch. Throws on the first failure.
+export const applyPatch = (doc: JsonValue, operations: PatchOperation[]): JsonValue => {
+  return operations.reduce((current, operation, i) => {
+    const fail = failFor(operation, i);
+    if (operation.op === 'test' && !testPasses(current, operation)) fail('test failed');
+    return applyOperation(current, operation, fail);
+  }, doc);
+};
+
+export interface FailedTest {
+  index: number; // Position in the patch
+  path: string;
+  expected: JsonValue;
+  actual: JsonValue | undefined; // undefined when nothing is at the path
+}
+
+export interface PatchOutcome {
+  data: JsonValue | null; // The patched document, null if any operation failed
+  failedTests: FailedTest[];
+  error: string | null; // The first operation that could not be applied at all
+}
+
+// Dry run for previews: every failed test is collected, not just the first
+export const tryPatch = (doc: JsonValue, operations: PatchOperation[]): PatchOutcome => {
+  const failedTests: FailedTest[] = [];
+  let current = doc;
+  try {
+    operations.forEach((operation, i) => {
+      if (operation.op === 'test' && !testPasses(current, operation)) {
+        failedTests.push({ index: i, path: operation.path, expected: operation.value, actual: valueAt(current, operation.path) });
+      }
+      current = applyOperation(current, operation, failFor(operation, i));
+    });
+  } catch (err: any) {
+    return { data: null, failedTests, error: err.message };
+  }
+  return { data: failedTests.length > 0 ? null : current, failedTests, error: null };
+};
+
+// How a patch touches the children of one level, keyed by child name, for marking cards in a preview.
+// Children a patch only adds to an array are left out; their indices do not exist yet.
+export const markPatchedChildren = (doc: JsonValue, operations: PatchOperation[], level: JsonPath): Map<string, DiffStatus> => {
+  const marks = new Map<string, DiffStatus>();
+  const container = getAtPath(doc, level);
+  const mark = (pointer: string, status: DiffStatus) => {
+    const path = fromPointer(pointer, doc);
+    if (path.length <= level.length || !isPathPrefix(level, path)) return;
+    const key = String(path[level.length]);
+    if (path.length === level.length + 1 && status === 'added') {
+      // Adding over an existing key replaces it
+      if (!isPlainObject(container) || !(key in container)) return;
+      status = 'modified';
+    }
+    if (path.length > level.length + 1) status = 'modified';
+    const previous = marks.get(key);
+    marks.set(key, previous && previous !== status ? 'modified' : status);
+  };
+
+  operations.forEach(operation => {
+    switch (operation.op) {
+      case 'add':
+      case 'copy':
+        mark(operation.path, 'added');
+        break;
+      case 'remove':
+        mark(operation.path, 'removed');
+        break;
+      case 'replace':
+        mark(operation.path, 'modified');
+        break;
+      case 'move':
+        mark(operation.from, 'removed');
+        mark(operation.path, 'added');
+        break;
+    }
+  });
+  return marks;
+};
+
+const OPS = new Set(['add', 'remove', 'replace', 'move', 'copy', 'test']);
+
+// Read a JSON Patch document, checking the shape of every operation
+export const parsePatch = (text: string): PatchOperation[] => {
+  const patch = JSON.parse(text);
+  if (!Array.isArray(patch)) throw new Error('A JSON Patch must be an array of operations.');
+
+  patch.forEach((operation, i) => {
+    const fail = (reason: string) => { throw new Error(`Operation ${i + 1}: ${reason}`); };
+    if (!isPlainObject(operation)) fail('not an object');
+    if (!OPS.has(operation.op as string)) fail(`unknown op ${JSON.stringify(operation.op)}`);
+    if (typeof operation.path !== 'string' || (operation.path !== '' && !operation.path.startsWith('/'))) fail('"path" must be a JSON Pointer');
+    if (['add', 'replace', 'test'].includes(operation.op as string) && !('value' in operation)) fail('"value" is missing');
+    if (['move', 'copy'].includes(operation.op as string) && (typeof operation.from !== 'string' || (operation.from !== '' && !operation.from.startsWith('/')))) fail('"from" must be a JSON Pointer');
+  });
+  return patch as PatchOperation[];
+};
+
+const commonPrefix = (paths: JsonPath[]): JsonPath => {
+  const [first, ...rest] = paths;
+  let length = first.length;
+  rest.forEach(path => {
+    let i = 0;
+    while (i < length && i < path.length && String(path[i]) === String(first[i])) i++;
+    length = i;
+  });
+  return first.slice(0, length);
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// One-line summary of a patch for the history list, e.g. "Deleted 3 items at items[4]"
+export const describePatch = (before: JsonValue, patch: PatchOperation[]): string => {
+  if (patch.length === 0) return 'No changes';
+  const paths = patch.map(operation => fromPointer(operation.path, before));
+  const kinds = new Set(patch.map(operation => operation.op));
+
+  if (patch.length === 1) {
+    const where = formatPath(paths[0]);
+    if (patch[0].op === 'add') return `Added ${where}`;
+    if (patch[0].op === 'remove') return `Deleted ${where}`;
+    return `Edited ${where}`;
+  }
+
+  // Items or keys added to or removed from one container
+  const parentPath = paths[0].slice(0, -1);
+  const sameParent = paths.every(path => path.length === parentPath.length + 1 && isPathPrefix(parentPath, path));
+  if (kinds.size === 1 && !kinds.has('replace') && sameParent) {
+    const verb = kinds.has('add') ? 'Added' : 'Deleted';
+    const parent = getAtPath(before, parentPath);
+    if (Array.isArray(parent)) {
+      const first = Math.min(...paths.map(path => Number(path[path.length - 1])));
+      return `${verb} ${plural(patch.length, 'item')} at ${formatPath([...parentPath, first])}`;
+    }
+    return `${verb} ${plural(patch.length, 'key')} ${kinds.has('add') ? 'to' : 'from'} ${formatPath(parentPath)}`;
+  }
+
+  const prefix = commonPrefix(paths);
+  const where = prefix.length === 0 ? 'across the document' : `in ${formatPath(prefix)}`;
+  if (kinds.size === 1 && kinds.has('replace')) return `Edited ${plural(patch.length, 'value')} ${where}`;
+  return `Changed ${plural(patch.length, 'value')} ${where}`;
+};
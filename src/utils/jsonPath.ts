@@ -0,0 +1,164 @@
+import { JsonObject, JsonPath, JsonValue } from '../types';
+
+// Resolve the value at a path, or undefined if the path does not exist
+export const getAtPath = (root: JsonValue, path: JsonPath): JsonValue | undefined => {
+  let current: JsonValue | undefined = root;
+  for (const key of path) {
+    if (current && typeof current === 'object') {
+      current = (current as any)[key];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+};
+
+// Immutably replace the value at a path, cloning only the containers along the way
+export const setAtPath = (obj: any, targetPath: JsonPath, value: any): any => {
+  if (targetPath.length === 0) return value;
+  const [head, ...rest] = targetPath;
+
+  // Clone current level
+  const copy = Array.isArray(obj) ? [...obj] : { ...obj };
+
+  // Get next object, ensuring it exists
+  const nextObj = obj && obj[head] !== undefined ? obj[head] : (typeof rest[0] === 'number' ? [] : {});
+
+  copy[head] = setAtPath(nextObj, rest, value);
+  return copy;
+};
+
+// Human readable path, e.g. data.results[2].name
+export const formatPath = (path: JsonPath): string => {
+  if (path.length === 0) return '(root)';
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') return `${acc}[${segment}]`;
+    return acc ? `${acc}.${segment}` : segment;
+  }, '');
+};
+
+export interface ArrayCandidate {
+  path: JsonPath;
+  length: number;
+}
+
+const isRecordArray = (val: JsonValue): val is JsonObject[] =>
+  Array.isArray(val) && val.length > 0 && val.some(item => typeof item === 'object' && item !== null && !Array.isArray(item));
+
+// Find the arrays of objects nested inside an envelope object (e.g. { meta, items: [...] }).
+// Only object properties are walked; arrays are treated as leaves.
+export const findRecordArrays = (root: JsonObject, maxDepth = 4): ArrayCandidate[] => {
+  const candidates: ArrayCandidate[] = [];
+
+  const walk = (obj: JsonObject, path: JsonPath) => {
+    for (const [key, val] of Object.entries(obj)) {
+      if (isRecordArray(val)) {
+        candidates.push({ path: [...path, key], length: val.length });
+      } else if (typeof val === 'object' && val !== null && !Array.isArray(val) && path.length + 1 < maxDepth) {
+        walk(val, [...path, key]);
+      }
+    }
+  };
+
+  walk(root, []);
+  return candidates;
+};
+
+// Pick a key that does not collide with the existing keys of an object (name, name_copy, name_copy2, ...)
+export const uniqueKey = (obj: JsonObject, base: string): string => {
+  if (!(base in obj)) return base;
+  let candidate = `${base}_copy`;
+  let counter = 2;
+  while (candidate in obj) {
+    candidate = `${base}_copy${counter}`;
+    counter++;
+  }
+  return candidate;
+};
+
+// RFC 6901 JSON Pointer, e.g. /results/2/name
+export const toPointer = (path: JsonPath): string =>
+  path.map(segment => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+
+// Segments that address array elements come back as numbers, so the result matches paths built while browsing
+export const fromPointer = (pointer: string, root: JsonValue): JsonPath => {
+  if (pointer === '') return [];
+  const path: JsonPath = [];
+  let current: JsonValue | undefined = root;
+
+  pointer.slice(1).split('/').forEach(raw => {
+    const token = raw.replace(/~1/g, '/').replace(/~0/g, '~');
+    const segment = Array.isArray(current) && /^(0|[1-9]\d*)$/.test(token) ? Number(token) : token;
+    path.push(segment);
+    current = current && typeof current === 'object' ? (current as any)[segment] : undefined;
+  });
+
+  return path;
+};
+
+// The deepest container along a path that still exists, e.g. after the document was reloaded
+export const nearestContainerPath = (root: JsonValue, path: JsonPath): JsonPath => {
+  let length = path.length;
+  while (length > 0) {
+    const value = getAtPath(root, path.slice(0, length));
+    if (typeof value === 'object' && value !== null) break;
+    length--;
+  }
+  return length === path.length ? path : path.slice(0, length);
+};
+
+// True when prefix is path itself or one of its ancestors
+export const isPathPrefix = (prefix: JsonPath, path: JsonPath): boolean =>
+  prefix.length <= path.length && prefix.every((segment, i) => String(segment) === String(path[i]));
+
+// Move the value at `from` into the container at `toLevel` (appended, or at `index` in arrays).
+// Returns the new root and where the value ended up; throws if the move is not possible.
+export const moveValue = (
+  root: JsonValue,
+  from: JsonPath,
+  toLevel: JsonPath,
+  index?: number
+): { data: JsonValue, path: JsonPath } => {
+  if (from.length === 0) throw new Error('The root cannot be moved');
+  if (isPathPrefix(from, toLevel)) throw new Error('A value cannot be moved into itself');
+
+  const value = getAtPath(root, from);
+  if (value === undefined) throw new Error('The value to move no longer exists');
+  const target = getAtPath(root, toLevel);
+  if (typeof target !== 'object' || target === null) throw new Error('Values can only be moved into an object or array');
+
+  const parentPath = from.slice(0, -1);
+  const key = from[from.length - 1];
+  const parent = getAtPath(root, parentPath) as JsonObject | JsonValue[];
+
+  // Remove from the old parent
+  let newParent: JsonObject | JsonValue[];
+  if (Array.isArray(parent)) {
+    newParent = parent.filter((_, i) => i !== key);
+  } else {
+    newParent = { ...parent };
+    delete newParent[key as string];
+  }
+  let data = setAtPath(root, parentPath, newParent);
+
+  // Removing an array item shifts the indices after it, including on the way to the target
+  let levelPath = toLevel;
+  if (Array.isArray(parent) && isPathPrefix(parentPath, toLevel) && toLevel.length > parentPath.length) {
+    const step = toLevel[parentPath.length] as number;
+    if (step > (key as number)) levelPath = [...parentPath, step - 1, ...toLevel.slice(parentPath.length + 1)];
+  }
+  if (Array.isArray(parent) && parentPath.length === levelPath.length && isPathPrefix(parentPath, levelPath) && index !== undefined && index > (key as number)) {
+    index--;
+  }
+
+  const level = getAtPath(data, levelPath) as JsonObject | JsonValue[];
+  if (Array.isArray(level)) {
+    const at = index === undefined ? level.length : Math.max(0, Math.min(index, level.length));
+    data = setAtPath(data, levelPath, [...level.slice(0, at), value, ...level.slice(at)]);
+    return { data, path: [...levelPath, at] };
+  }
+
+  const newKey = uniqueKey(level, String(key));
+  data = setAtPath(data, levelPath, { ...level, [newKey]: value });
+  return { data, path: [...levelPath, newKey] };
+};
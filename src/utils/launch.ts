@@ -0,0 +1,9 @@
+import { invoke } from '@tauri-apps/api/core';
+import { UnlistenFn, listen } from '@tauri-apps/api/event';
+
+// Files to open that were passed on the command line (`jextile data.json`) or by the OS through
+// the file association. The Rust side queues them until the UI takes them.
+export const takeLaunchFiles = (): Promise<string[]> => invoke('take_launch_files');
+
+// Fires when more files are queued while the app is already running
+export const onLaunchFiles = (handler: () => void): Promise<UnlistenFn> => listen('launch-files', handler);
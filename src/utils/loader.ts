@@ -0,0 +1,89 @@
+import { open, stat } from '@tauri-apps/plugin-fs';
+import { ParseResult } from './formats';
+import { FileSource, LoadedFile, fileNameFromPath } from './files';
+import type { ParseWorkerRequest, ParseWorkerResponse } from '../workers/parseWorker';
+
+// Read in slices so progress can be reported and a load can be cancelled midway
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+export type LoadInput = { path: string } | { file: File };
+
+export interface LoadProgress {
+  phase: 'reading' | 'parsing';
+  loaded: number; // Bytes read so far
+  total: number;
+}
+
+export type LoadOutcome =
+  | { kind: 'parsed', source: FileSource, result: ParseResult }
+  | { kind: 'invalid', file: LoadedFile }; // Unparseable text, for the raw editor
+
+// Stream a file into the parse worker. Resolves to null if the signal aborts the load.
+export const loadInBackground = async (
+  input: LoadInput,
+  onProgress: (progress: LoadProgress) => void,
+  signal: AbortSignal
+): Promise<LoadOutcome | null> => {
+  const source: FileSource = 'path' in input
+    ? { name: fileNameFromPath(input.path), size: (await stat(input.path)).size, filePath: input.path }
+    : { name: input.file.name, size: input.file.size, filePath: null };
+
+  const worker = new Worker(new URL('../workers/parseWorker.ts', import.meta.url), { type: 'module' });
+  const send = (message: ParseWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  let loaded = 0;
+  const sendChunk = (bytes: Uint8Array) => {
+    // Copy out the filled part so the whole buffer can be transferred, not cloned
+    const chunk = bytes.slice();
+    send({ type: 'chunk', buffer: chunk.buffer }, [chunk.buffer]);
+    loaded += chunk.byteLength;
+    onProgress({ phase: 'reading', loaded, total: source.size });
+  };
+
+  const result = new Promise<LoadOutcome | null>((resolve, reject) => {
+    if (signal.aborted) resolve(null);
+    signal.addEventListener('abort', () => resolve(null));
+    worker.onerror = (e) => reject(new Error(e.message));
+    worker.onmessage = (e: MessageEvent<ParseWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === 'parsing') {
+        onProgress({ phase: 'parsing', loaded, total: source.size });
+      } else if (message.type === 'done') {
+        resolve({ kind: 'parsed', source, result: message.result });
+      } else {
+        resolve({ kind: 'invalid', file: { ...source, text: message.text } });
+      }
+    };
+  });
+
+  try {
+    onProgress({ phase: 'reading', loaded: 0, total: source.size });
+
+    if ('path' in input) {
+      const handle = await open(input.path, { read: true });
+      try {
+        const buffer = new Uint8Array(CHUNK_SIZE);
+        while (!signal.aborted) {
+          const count = await handle.read(buffer);
+          if (!count) break;
+          sendChunk(buffer.subarray(0, count));
+        }
+      } finally {
+        await handle.close();
+      }
+    } else {
+      const reader = input.file.stream().getReader();
+      while (!signal.aborted) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        sendChunk(value);
+      }
+      if (signal.aborted) await reader.cancel();
+    }
+
+    if (!signal.aborted) send({ type: 'end', name: source.name });
+    return await result;
+  } finally {
+    worker.terminate();
+  }
+};
@@ -0,0 +1,143 @@
+import { JsonObject, JsonPath, JsonValue } from '../types';
+import { deepEqual, keyValueOf } from './jsonDiff';
+import { getAtPath, setAtPath } from './jsonPath';
+
+export type MergeSide = 'ours' | 'disk';
+
+// unchanged: same everywhere; ours/disk: only that side changed it; both: changed the same way on both sides
+export type MergeStatus = 'unchanged' | 'ours' | 'disk' | 'both' | 'conflict';
+
+// One card of the merged level as it was at the last save, as it is on disk and as it is in the editor.
+// A missing value means the card does not exist in that version.
+export interface MergeCard {
+  id: string;
+  name: string | number;
+  base?: JsonValue;
+  disk?: JsonValue;
+  ours?: JsonValue;
+  status: MergeStatus;
+}
+
+export interface MergePlan {
+  level: JsonPath; // Where the cards live
+  wholeDocument: boolean; // The versions could not be split into cards; a single card holds the document
+  isArray: boolean;
+  cards: MergeCard[]; // In merged order
+  frame: JsonValue; // The document around the level, with changes outside the level already taken
+}
+
+export interface MergeOptions {
+  // Line up array items by this field (e.g. 'id') instead of by index
+  keyField?: string;
+}
+
+const isContainer = (value: JsonValue | undefined): value is JsonObject | JsonValue[] =>
+  typeof value === 'object' && value !== null;
+
+const statusOf = (base: JsonValue | undefined, disk: JsonValue | undefined, ours: JsonValue | undefined): MergeStatus => {
+  const diskChanged = !deepEqual(base, disk);
+  const oursChanged = !deepEqual(base, ours);
+  if (!diskChanged && !oursChanged) return 'unchanged';
+  if (!oursChanged) return 'disk';
+  if (!diskChanged) return 'ours';
+  return deepEqual(disk, ours) ? 'both' : 'conflict';
+};
+
+// Identity of each child: its key, its key field value, or its index
+const childIds = (container: JsonObject | JsonValue[], keyField: string | undefined): Map<string, string | number> => {
+  const ids = new Map<string, string | number>();
+  if (!Array.isArray(container)) {
+    Object.keys(container).forEach(key => ids.set(`o${key}`, key));
+    return ids;
+  }
+  container.forEach((item, i) => {
+    const key = keyField ? keyValueOf(item, keyField) : undefined;
+    ids.set(key !== undefined && !ids.has(`k${key}`) ? `k${key}` : `i${i}`, i);
+  });
+  return ids;
+};
+
+// Ours keeps its order; children only on disk go in after the child they follow there
+const mergedOrder = (oursIds: string[], diskIds: string[]): string[] => {
+  const inOurs = new Set(oursIds);
+  const following = new Map<string | null, string[]>();
+  let anchor: string | null = null;
+  diskIds.forEach(id => {
+    if (inOurs.has(id)) {
+      anchor = id;
+      return;
+    }
+    following.set(anchor, [...(following.get(anchor) ?? []), id]);
+  });
+
+  const order = [...(following.get(null) ?? [])];
+  oursIds.forEach(id => order.push(id, ...(following.get(id) ?? [])));
+  return order;
+};
+
+const wholeDocumentPlan = (base: JsonValue, disk: JsonValue, ours: JsonValue): MergePlan => ({
+  level: [],
+  wholeDocument: true,
+  isArray: false,
+  cards: [{ id: 'document', name: '(root)', base, disk, ours, status: statusOf(base, disk, ours) }],
+  frame: ours
+});
+
+// The everything-but-the-level part of the document must merge cleanly for the level to be split into cards
+const mergeFrame = (base: JsonValue, disk: JsonValue, ours: JsonValue, level: JsonPath): JsonValue | undefined => {
+  if (level.length === 0) return ours;
+  const strip = (value: JsonValue) => setAtPath(value, level, null);
+  const [baseFrame, diskFrame, oursFrame] = [strip(base), strip(disk), strip(ours)];
+  if (deepEqual(baseFrame, oursFrame)) return disk;
+  if (deepEqual(baseFrame, diskFrame) || deepEqual(diskFrame, oursFrame)) return ours;
+  return undefined;
+};
+
+// Three-way merge of the cards at a level: the document as last saved (base), as it is on disk now,
+// and as it is in the editor (ours). Falls back to the root, then to the whole document, when the
+// level does not line up in all three versions.
+export const planMerge = (base: JsonValue, disk: JsonValue, ours: JsonValue, level: JsonPath, options: MergeOptions = {}): MergePlan => {
+  const containers = [getAtPath(base, level), getAtPath(disk, level), getAtPath(ours, level)];
+  const [baseLevel, diskLevel, oursLevel] = containers;
+  const sameKind = containers.every(isContainer) && new Set(containers.map(Array.isArray)).size === 1;
+  const frame = sameKind ? mergeFrame(base, disk, ours, level) : undefined;
+
+  if (frame === undefined) {
+    return level.length > 0 ? planMerge(base, disk, ours, [], options) : wholeDocumentPlan(base, disk, ours);
+  }
+
+  const levels = { base: baseLevel as JsonObject | JsonValue[], disk: diskLevel as JsonObject | JsonValue[], ours: oursLevel as JsonObject | JsonValue[] };
+  const baseIds = childIds(levels.base, options.keyField);
+  const diskIds = childIds(levels.disk, options.keyField);
+  const oursIds = childIds(levels.ours, options.keyField);
+  const valueOf = (container: JsonObject | JsonValue[], key: string | number | undefined) =>
+    key === undefined ? undefined : (container as any)[key] as JsonValue;
+
+  const cards = mergedOrder([...oursIds.keys()], [...diskIds.keys()]).map((id): MergeCard => {
+    const base = valueOf(levels.base, baseIds.get(id));
+    const disk = valueOf(levels.disk, diskIds.get(id));
+    const ours = valueOf(levels.ours, oursIds.get(id));
+    return { id, name: oursIds.get(id) ?? diskIds.get(id)!, base, disk, ours, status: statusOf(base, disk, ours) };
+  });
+
+  return { level, wholeDocument: false, isArray: Array.isArray(oursLevel), cards, frame };
+};
+
+// Cards changed on one side take that change; conflicts take the chosen side (ours unless chosen otherwise)
+export const resolveCard = (card: MergeCard, choice: MergeSide | undefined): JsonValue | undefined => {
+  if (card.status === 'disk' || (card.status === 'conflict' && choice === 'disk')) return card.disk;
+  return card.ours;
+};
+
+export const applyMerge = (plan: MergePlan, choices: Record<string, MergeSide>): JsonValue => {
+  const resolved = plan.cards
+    .map(card => ({ card, value: resolveCard(card, choices[card.id]) }))
+    .filter((entry): entry is { card: MergeCard, value: JsonValue } => entry.value !== undefined);
+
+  if (plan.wholeDocument) return resolved[0]?.value ?? plan.frame;
+
+  const container: JsonValue = plan.isArray
+    ? resolved.map(entry => entry.value)
+    : Object.fromEntries(resolved.map(entry => [entry.card.name, entry.value]));
+  return setAtPath(plan.frame, plan.level, container);
+};
@@ -0,0 +1,41 @@
+import { JsonValue } from '../types';
+
+// Compact JSON text of a value, cut off at maxLength characters.
+// Unlike JSON.stringify this stops walking as soon as enough text exists, so previews of huge values stay cheap.
+export const previewText = (value: JsonValue, maxLength: number): string => {
+  let out = '';
+
+  // Returns false once the budget is used up, which unwinds the walk
+  const write = (chunk: string): boolean => {
+    out += chunk;
+    return out.length <= maxLength;
+  };
+
+  const walk = (val: JsonValue): boolean => {
+    // Long strings are cut before escaping; only the first maxLength characters can show anyway
+    if (typeof val === 'string') return write(JSON.stringify(val.length > maxLength ? val.slice(0, maxLength + 1) : val));
+    if (val === null || typeof val !== 'object') return write(JSON.stringify(val));
+
+    if (Array.isArray(val)) {
+      if (!write('[')) return false;
+      for (let i = 0; i < val.length; i++) {
+        if (i > 0 && !write(',')) return false;
+        if (!walk(val[i])) return false;
+      }
+      return write(']');
+    }
+
+    if (!write('{')) return false;
+    let first = true;
+    for (const key in val) {
+      if (!first && !write(',')) return false;
+      first = false;
+      if (!write(`${JSON.stringify(key)}:`)) return false;
+      if (!walk(val[key])) return false;
+    }
+    return write('}');
+  };
+
+  walk(value);
+  return out.length > maxLength ? out.slice(0, maxLength) + '...' : out;
+};
@@ -0,0 +1,582 @@
+import { JsonPath, JsonValue } from '../types';
+import { deepEqual } from './jsonDiff';
+
+// Structured search for the grid search box:
+//   field predicates, evaluated against each item:  status == "active" && price > 10, has(tags), name =~ /^jo/i
+//   JSONPath, evaluated against the current level:  $..author, $[?(@.price < 10)].title, $[0:5]
+//   value expressions, computed per item (bulk edit):  first + " " + last, price * 1.2, price-1, (price)-1, @
+// Bare field names are letters, digits and underscores; other keys are quoted in brackets: ["list-price"] > 10
+// Syntax problems throw a SyntaxError whose message includes the character position.
+
+export type CompiledQuery =
+  | { kind: 'predicate', test: (value: JsonValue) => boolean }
+  | { kind: 'jsonpath', select: (root: JsonValue) => JsonPath[] };
+
+// --- Tokens ---
+
+type TokenType = 'string' | 'number' | 'regex' | 'ident' | 'op' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string; // Operator/punctuation text or identifier name
+  value?: JsonValue | RegExp;
+  pos: number;
+}
+
+const OPERATORS = ['..', '==', '!=', '>=', '<=', '=~', '!~', '&&', '||', '>', '<', '!', '(', ')', '[', ']', '.', ',', '*', '?', ':', '$', '@', '+', '-'];
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r' };
+
+const fail = (message: string, pos: number): never => {
+  throw new SyntaxError(`${message} at position ${pos + 1}`);
+};
+
+// Tokens after which a value has ended
+const OPERAND_ENDS = [')', ']', '@', '$'];
+
+const expectsOperand = (previous: Token | undefined): boolean =>
+  !previous || (previous.type === 'op' && !OPERAND_ENDS.includes(previous.text));
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Strings: double or single quoted, backslash escapes
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let text = '';
+      i++;
+      while (i < input.length && input[i] !== ch) {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          const escaped = input[i + 1];
+          text += ESCAPES[escaped] ?? escaped;
+          i += 2;
+        } else {
+          text += input[i++];
+        }
+      }
+      if (i >= input.length) fail('Unterminated string', start);
+      i++;
+      tokens.push({ type: 'string', text, value: text, pos: start });
+      continue;
+    }
+
+    // Regex literal: there is no division, so a slash always starts one
+    if (ch === '/') {
+      const start = i;
+      let source = '';
+      i++;
+      while (i < input.length && input[i] !== '/') {
+        if (input[i] === '\\' && i + 1 < input.length) source += input[i++];
+        source += input[i++];
+      }
+      if (i >= input.length) fail('Unterminated regular expression', start);
+      i++;
+      let flags = '';
+      while (i < input.length && /[a-z]/i.test(input[i])) flags += input[i++];
+      let value: RegExp;
+      try {
+        value = new RegExp(source, flags);
+      } catch (e: any) {
+        value = fail(e.message, start);
+      }
+      tokens.push({ type: 'regex', text: source, value, pos: start });
+      continue;
+    }
+
+    // A minus is a sign only where an operand is expected; after one (price-1, (a)-1) it subtracts
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(input.slice(i));
+    if (number && (ch !== '-' || expectsOperand(tokens[tokens.length - 1]))) {
+      tokens.push({ type: 'number', text: number[0], value: Number(number[0]), pos: i });
+      i += number[0].length;
+      continue;
+    }
+
+    // Keys with other characters (e.g. list-price) use brackets: ["list-price"]
+    const ident = /^[A-Za-z_]\w*/.exec(input.slice(i));
+    if (ident) {
+      tokens.push({ type: 'ident', text: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => input.startsWith(o, i));
+    if (!op) fail(`Unexpected "${ch}"`, i);
+    tokens.push({ type: 'op', text: op!, pos: i });
+    i += op!.length;
+  }
+
+  tokens.push({ type: 'end', text: '', pos: input.length });
+  return tokens;
+};
+
+// --- Parser ---
+
+type FieldSegment = string | number;
+
+type Operand =
+  | { kind: 'literal', value: JsonValue }
+  | { kind: 'regex', value: RegExp }
+  | { kind: 'field', path: FieldSegment[] };
+
+type Predicate = (value: JsonValue) => boolean;
+
+// undefined when a referenced field is missing or the arithmetic has no meaning
+type ValueFn = (value: JsonValue) => JsonValue | undefined;
+
+// Path selectors produce child nodes from a node
+interface Node {
+  value: JsonValue;
+  path: JsonPath;
+}
+type Selector = (node: Node) => Node[];
+
+class Parser {
+  private index = 0;
+  constructor(private tokens: Token[]) {}
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(text: string): boolean {
+    const token = this.peek();
+    return token.type === 'op' && token.text === text;
+  }
+
+  private expectOp(text: string) {
+    if (!this.isOp(text)) this.unexpected(`Expected "${text}"`);
+    this.next();
+  }
+
+  private unexpected(message?: string): never {
+    const token = this.peek();
+    const found = token.type === 'end' ? 'end of query' : `"${token.text}"`;
+    return fail(message ? `${message}, found ${found}` : `Unexpected ${found}`, token.pos);
+  }
+
+  expectEnd() {
+    if (this.peek().type !== 'end') this.unexpected();
+  }
+
+  // expr := and ('||' and)*
+  parseExpression(): Predicate {
+    let left = this.parseAnd();
+    while (this.isOp('||')) {
+      this.next();
+      const a = left, b = this.parseAnd();
+      left = value => a(value) || b(value);
+    }
+    return left;
+  }
+
+  // and := unary ('&&' unary)*
+  private parseAnd(): Predicate {
+    let left = this.parseUnary();
+    while (this.isOp('&&')) {
+      this.next();
+      const a = left, b = this.parseUnary();
+      left = value => a(value) && b(value);
+    }
+    return left;
+  }
+
+  private parseUnary(): Predicate {
+    if (this.isOp('!')) {
+      this.next();
+      const inner = this.parseUnary();
+      return value => !inner(value);
+    }
+    if (this.isOp('(')) {
+      this.next();
+      const inner = this.parseExpression();
+      this.expectOp(')');
+      return inner;
+    }
+    if (this.peek().type === 'ident' && this.peek().text === 'has' && this.tokens[this.index + 1]?.text === '(') {
+      this.next();
+      this.next();
+      const field = this.parseOperand();
+      if (field.kind !== 'field') fail('has() takes a field name', this.tokens[this.index - 1].pos);
+      this.expectOp(')');
+      const path = (field as { path: FieldSegment[] }).path;
+      return value => resolveField(value, path) !== undefined;
+    }
+    return this.parseComparison();
+  }
+
+  // comparison := operand (op operand)?  -- a lone operand tests truthiness
+  private parseComparison(): Predicate {
+    const left = this.parseOperand();
+    const token = this.peek();
+    const op = token.type === 'op' && ['==', '!=', '>', '>=', '<', '<=', '=~', '!~'].includes(token.text) ? token.text : null;
+
+    if (!op) {
+      return value => isTruthy(evaluate(left, value));
+    }
+    this.next();
+    const right = this.parseOperand();
+
+    if (op === '=~' || op === '!~') {
+      const pattern = right.kind === 'regex'
+        ? right.value
+        : right.kind === 'literal' && typeof right.value === 'string'
+          ? toRegExp(right.value, token.pos)
+          : fail(`${op} needs a /regex/ or a string pattern`, token.pos);
+      const negate = op === '!~';
+      return value => {
+        const subject = evaluate(left, value);
+        const matched = (typeof subject === 'string' || typeof subject === 'number') && testRegExp(pattern, String(subject));
+        return negate ? !matched : matched;
+      };
+    }
+
+    if (right.kind === 'regex' || left.kind === 'regex') fail(`A /regex/ can only be used with =~ or !~`, token.pos);
+    return value => compare(op, evaluate(left, value), evaluate(right, value));
+  }
+
+  private parseOperand(): Operand {
+    const token = this.peek();
+
+    if (token.type === 'string' || token.type === 'number') {
+      this.next();
+      return { kind: 'literal', value: token.value as JsonValue };
+    }
+    if (token.type === 'regex') {
+      this.next();
+      return { kind: 'regex', value: token.value as RegExp };
+    }
+    if (token.type === 'ident' && ['true', 'false', 'null'].includes(token.text)) {
+      this.next();
+      return { kind: 'literal', value: JSON.parse(token.text) };
+    }
+    if (token.type === 'ident' || this.isOp('@') || this.isOp('[')) {
+      return { kind: 'field', path: this.parseField() };
+    }
+    return this.unexpected('Expected a field, string, number or regex');
+  }
+
+  // field := ('@' | ident | bracket) ('.' ident | bracket)*
+  private parseField(): FieldSegment[] {
+    const path: FieldSegment[] = [];
+
+    if (this.isOp('@')) {
+      this.next(); // The item itself
+    } else if (this.peek().type === 'ident') {
+      path.push(this.next().text);
+    } else {
+      path.push(this.parseFieldBracket());
+    }
+
+    while (this.isOp('.') || this.isOp('[')) {
+      if (this.isOp('.')) {
+        this.next();
+        const token = this.next();
+        if (token.type !== 'ident' && token.type !== 'number') {
+          this.index--;
+          this.unexpected('Expected a field name after "."');
+        }
+        path.push(token.type === 'number' ? Number(token.value) : token.text);
+      } else {
+        path.push(this.parseFieldBracket());
+      }
+    }
+    return path;
+  }
+
+  private parseFieldBracket(): FieldSegment {
+    this.expectOp('[');
+    const token = this.next();
+    if (token.type !== 'string' && token.type !== 'number') {
+      this.index--;
+      this.unexpected('Expected an index or quoted key');
+    }
+    this.expectOp(']');
+    return token.value as FieldSegment;
+  }
+
+  // value := product (('+' | '-') product)*
+  parseValue(): ValueFn {
+    let left = this.parseProduct();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = this.next().text;
+      const a = left, b = this.parseProduct();
+      left = value => op === '+' ? add(a(value), b(value)) : arithmetic(a(value), b(value), (x, y) => x - y);
+    }
+    return left;
+  }
+
+  // product := term ('*' term)*
+  private parseProduct(): ValueFn {
+    let left = this.parseTerm();
+    while (this.isOp('*')) {
+      this.next();
+      const a = left, b = this.parseTerm();
+      left = value => arithmetic(a(value), b(value), (x, y) => x * y);
+    }
+    return left;
+  }
+
+  private parseTerm(): ValueFn {
+    if (this.isOp('(')) {
+      this.next();
+      const inner = this.parseValue();
+      this.expectOp(')');
+      return inner;
+    }
+    const operand = this.parseOperand();
+    if (operand.kind === 'regex') return fail('A /regex/ is not a value', this.tokens[this.index - 1].pos);
+    return value => evaluate(operand, value);
+  }
+
+  // path := '$' segment*
+  parsePath(): Selector[] {
+    this.expectOp('$');
+    const selectors: Selector[] = [];
+
+    while (this.peek().type !== 'end') {
+      if (this.isOp('..')) {
+        this.next();
+        const selector = this.isOp('[') ? this.parseBracket() : this.parseDotMember();
+        selectors.push(node => descendantsAndSelf(node).flatMap(selector));
+      } else if (this.isOp('.')) {
+        this.next();
+        selectors.push(this.parseDotMember());
+      } else if (this.isOp('[')) {
+        selectors.push(this.parseBracket());
+      } else {
+        this.unexpected('Expected ".", ".." or "["');
+      }
+    }
+    return selectors;
+  }
+
+  private parseDotMember(): Selector {
+    if (this.isOp('*')) {
+      this.next();
+      return children;
+    }
+    const token = this.next();
+    if (token.type !== 'ident' && token.type !== 'number') {
+      this.index--;
+      this.unexpected('Expected a member name');
+    }
+    return member(token.type === 'number' ? String(token.value) : token.text);
+  }
+
+  private parseBracket(): Selector {
+    this.expectOp('[');
+    let selector: Selector;
+
+    if (this.isOp('*')) {
+      this.next();
+      selector = children;
+    } else if (this.isOp('?')) {
+      this.next();
+      const predicate = this.parseExpression();
+      selector = node => children(node).filter(child => predicate(child.value));
+    } else {
+      selector = this.parseUnionOrSlice();
+    }
+
+    this.expectOp(']');
+    return selector;
+  }
+
+  // [0], ['a','b'], [1,3], [0:5], [-2:], [::2]
+  private parseUnionOrSlice(): Selector {
+    const readInt = (): number | undefined => {
+      if (this.peek().type !== 'number') return undefined;
+      const token = this.next();
+      if (!Number.isInteger(token.value)) fail('Expected an integer index', token.pos);
+      return token.value as number;
+    };
+
+    const first = this.peek();
+    if (first.type === 'number' || this.isOp(':')) {
+      const start = readInt();
+      if (this.isOp(':')) {
+        this.next();
+        const end = readInt();
+        let step: number | undefined;
+        if (this.isOp(':')) {
+          this.next();
+          step = readInt();
+          if (step !== undefined && step <= 0) fail('Slice step must be positive', first.pos);
+        }
+        return slice(start, end, step ?? 1);
+      }
+      const indices = [start!];
+      while (this.isOp(',')) {
+        this.next();
+        const index = readInt();
+        if (index === undefined) this.unexpected('Expected an index');
+        indices.push(index!);
+      }
+      return node => indices.flatMap(i => element(i)(node));
+    }
+
+    if (first.type === 'string') {
+      const names = [this.next().value as string];
+      while (this.isOp(',')) {
+        this.next();
+        const token = this.next();
+        if (token.type !== 'string') {
+          this.index--;
+          this.unexpected('Expected a quoted key');
+        }
+        names.push(token.value as string);
+      }
+      return node => names.flatMap(name => member(name)(node));
+    }
+
+    return this.unexpected('Expected an index, quoted key, slice, "*" or "?"');
+  }
+}
+
+// --- Evaluation helpers ---
+
+const resolveField = (value: JsonValue, path: FieldSegment[]): JsonValue | undefined => {
+  let current: JsonValue | undefined = value;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = Array.isArray(current)
+      ? (typeof segment === 'number' ? current[segment < 0 ? current.length + segment : segment] : undefined)
+      : (Object.prototype.hasOwnProperty.call(current, segment) ? current[segment] : undefined);
+  }
+  return current;
+};
+
+const evaluate = (operand: Operand, value: JsonValue): JsonValue | undefined => {
+  if (operand.kind === 'field') return resolveField(value, operand.path);
+  if (operand.kind === 'literal') return operand.value;
+  return undefined;
+};
+
+const arithmetic = (a: JsonValue | undefined, b: JsonValue | undefined, fn: (x: number, y: number) => number): JsonValue | undefined =>
+  typeof a === 'number' && typeof b === 'number' ? fn(a, b) : undefined;
+
+// Numbers add; anything involving text concatenates
+const add = (a: JsonValue | undefined, b: JsonValue | undefined): JsonValue | undefined => {
+  if (a === undefined || b === undefined) return undefined;
+  if (typeof a === 'number' && typeof b === 'number') return a + b;
+  const text = (v: JsonValue) => typeof v === 'string' ? v : JSON.stringify(v);
+  return text(a) + text(b);
+};
+
+const isTruthy = (value: JsonValue | undefined): boolean =>
+  value !== undefined && value !== null && value !== false && value !== 0 && value !== '';
+
+const compare = (op: string, a: JsonValue | undefined, b: JsonValue | undefined): boolean => {
+  if (op === '==') return a !== undefined && deepEqual(a, b);
+  if (op === '!=') return a === undefined || !deepEqual(a, b);
+
+  // Ordering only between two numbers or two strings; no coercion
+  const comparable = (typeof a === 'number' && typeof b === 'number') || (typeof a === 'string' && typeof b === 'string');
+  if (!comparable) return false;
+  switch (op) {
+    case '>': return a! > b!;
+    case '>=': return a! >= b!;
+    case '<': return a! < b!;
+    case '<=': return a! <= b!;
+  }
+  return false;
+};
+
+const toRegExp = (pattern: string, pos: number): RegExp => {
+  try {
+    return new RegExp(pattern);
+  } catch (e: any) {
+    return fail(e.message, pos);
+  }
+};
+
+// Global/sticky regexes keep state between test() calls; reset so every item is tested from the start
+const testRegExp = (re: RegExp, text: string): boolean => {
+  re.lastIndex = 0;
+  return re.test(text);
+};
+
+const children: Selector = ({ value, path }) => {
+  if (Array.isArray(value)) return value.map((item, i) => ({ value: item, path: [...path, i] }));
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).map(([key, item]) => ({ value: item, path: [...path, key] }));
+  }
+  return [];
+};
+
+const member = (name: string): Selector => ({ value, path }) => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return [];
+  return Object.prototype.hasOwnProperty.call(value, name) ? [{ value: value[name], path: [...path, name] }] : [];
+};
+
+const element = (index: number): Selector => ({ value, path }) => {
+  if (!Array.isArray(value)) return [];
+  const i = index < 0 ? value.length + index : index;
+  return i >= 0 && i < value.length ? [{ value: value[i], path: [...path, i] }] : [];
+};
+
+const slice = (start: number | undefined, end: number | undefined, step: number): Selector => ({ value, path }) => {
+  if (!Array.isArray(value)) return [];
+  const clamp = (n: number) => Math.max(0, Math.min(value.length, n < 0 ? value.length + n : n));
+  const from = clamp(start ?? 0);
+  const to = clamp(end ?? value.length);
+  const nodes: Node[] = [];
+  for (let i = from; i < to; i += step) nodes.push({ value: value[i], path: [...path, i] });
+  return nodes;
+};
+
+const descendantsAndSelf = (node: Node): Node[] => {
+  const nodes: Node[] = [node];
+  for (let i = 0; i < nodes.length; i++) nodes.push(...children(nodes[i]));
+  return nodes;
+};
+
+// --- Public API ---
+
+export const isJsonPathQuery = (text: string): boolean => text.trimStart().startsWith('$');
+
+export const compileQuery = (text: string): CompiledQuery => {
+  const parser = new Parser(tokenize(text));
+
+  if (isJsonPathQuery(text)) {
+    const selectors = parser.parsePath();
+    parser.expectEnd();
+    return {
+      kind: 'jsonpath',
+      select: root => selectors
+        .reduce<Node[]>((nodes, selector) => nodes.flatMap(selector), [{ value: root, path: [] }])
+        .map(node => node.path)
+    };
+  }
+
+  const test = parser.parseExpression();
+  parser.expectEnd();
+  return { kind: 'predicate', test };
+};
+
+// A value computed from each item: plain JSON is taken literally, anything else is an expression over the item's fields
+export const compileValueExpression = (text: string): ((item: JsonValue) => JsonValue | undefined) => {
+  try {
+    const literal = JSON.parse(text);
+    return () => literal;
+  } catch {
+    // Not JSON; parse as an expression below
+  }
+  const parser = new Parser(tokenize(text));
+  const fn = parser.parseValue();
+  parser.expectEnd();
+  return fn;
+};
@@ -0,0 +1,90 @@
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { JsonObject, JsonPath, JsonValue } from '../types';
+import { fromPointer } from './jsonPath';
+
+export interface SchemaError {
+  path: JsonPath; // Instance location inside the document
+  keyword: string;
+  message: string;
+}
+
+export interface ErrorGroup {
+  path: JsonPath;
+  errors: SchemaError[];
+}
+
+const ajv = new Ajv2020({ allErrors: true, strict: false });
+addFormats(ajv);
+
+// Compiling is expensive; an attached schema object is never mutated, so cache by identity
+const validators = new WeakMap<object, ValidateFunction>();
+
+const getValidator = (schema: JsonObject | boolean): ValidateFunction => {
+  // Boolean schemas cannot be WeakMap keys; they are trivial to compile anyway
+  if (typeof schema === 'boolean') return ajv.compile(schema);
+
+  let validate = validators.get(schema);
+  if (!validate) {
+    // Re-attaching an edited copy of a schema reuses its $id, which Ajv would reject as a duplicate
+    if (typeof schema.$id === 'string') ajv.removeSchema(schema.$id);
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+  return validate;
+};
+
+// Throws with Ajv's message when the schema itself is invalid (unknown draft, unresolvable $ref, ...)
+export const checkSchema = (schema: JsonValue): JsonObject | boolean => {
+  if (typeof schema !== 'boolean' && (typeof schema !== 'object' || schema === null || Array.isArray(schema))) {
+    throw new Error('A JSON Schema must be an object or a boolean.');
+  }
+  getValidator(schema);
+  return schema;
+};
+
+const describe = (error: ErrorObject): string => {
+  const message = error.message ?? error.keyword;
+  if (error.keyword === 'additionalProperties') return `${message}: '${error.params.additionalProperty}'`;
+  if (error.keyword === 'unevaluatedProperties') return `${message}: '${error.params.unevaluatedProperty}'`;
+  if (error.keyword === 'enum') return `${message}: ${error.params.allowedValues.map((v: JsonValue) => JSON.stringify(v)).join(', ')}`;
+  return message;
+};
+
+export const validateAgainstSchema = (schema: JsonObject | boolean, data: JsonValue): SchemaError[] => {
+  const validate = getValidator(schema);
+  if (validate(data)) return [];
+
+  return (validate.errors ?? []).map(error => ({
+    path: fromPointer(error.instancePath, data),
+    keyword: error.keyword,
+    message: describe(error)
+  }));
+};
+
+// Stable map key for a path (numbers and numeric-looking keys stay distinct)
+export const pathKey = (path: JsonPath): string => JSON.stringify(path);
+
+// Errors by instance path, in document order of first appearance
+export const groupErrorsByPath = (errors: SchemaError[]): ErrorGroup[] => {
+  const groups = new Map<string, ErrorGroup>();
+  errors.forEach(error => {
+    const key = pathKey(error.path);
+    const group = groups.get(key);
+    if (group) group.errors.push(error);
+    else groups.set(key, { path: error.path, errors: [error] });
+  });
+  return Array.from(groups.values());
+};
+
+// How many errors sit at or below each path; drives the card and breadcrumb badges
+export const countErrorsByPrefix = (errors: SchemaError[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  errors.forEach(error => {
+    for (let i = 0; i <= error.path.length; i++) {
+      const key = pathKey(error.path.slice(0, i));
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  });
+  return counts;
+};
@@ -0,0 +1,147 @@
+import { JsonObject, JsonValue } from '../types';
+
+export const SCHEMA_DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+
+// Strings become an enum when there are at most this many distinct values, each seen at least twice on average
+const ENUM_MAX_VALUES = 10;
+
+type SchemaType = 'null' | 'boolean' | 'integer' | 'number' | 'string' | 'object' | 'array';
+
+// Everything observed at one location across all samples
+interface Shape {
+  count: number;
+  types: Set<SchemaType>;
+  strings: Map<string, number> | null; // null once there are too many distinct values for an enum
+  stringCount: number;
+  minimum: number;
+  maximum: number;
+  objectCount: number;
+  properties: Map<string, Shape>; // First-seen order
+  items: Shape | null;
+}
+
+const createShape = (): Shape => ({
+  count: 0,
+  types: new Set(),
+  strings: new Map(),
+  stringCount: 0,
+  minimum: Infinity,
+  maximum: -Infinity,
+  objectCount: 0,
+  properties: new Map(),
+  items: null
+});
+
+const addSample = (shape: Shape, value: JsonValue) => {
+  shape.count++;
+
+  if (value === null) {
+    shape.types.add('null');
+  } else if (typeof value === 'boolean') {
+    shape.types.add('boolean');
+  } else if (typeof value === 'number') {
+    shape.types.add(Number.isInteger(value) ? 'integer' : 'number');
+    shape.minimum = Math.min(shape.minimum, value);
+    shape.maximum = Math.max(shape.maximum, value);
+  } else if (typeof value === 'string') {
+    shape.types.add('string');
+    shape.stringCount++;
+    if (shape.strings) {
+      shape.strings.set(value, (shape.strings.get(value) ?? 0) + 1);
+      if (shape.strings.size > ENUM_MAX_VALUES) shape.strings = null;
+    }
+  } else if (Array.isArray(value)) {
+    shape.types.add('array');
+    if (!shape.items) shape.items = createShape();
+    for (const item of value) addSample(shape.items, item);
+  } else {
+    shape.types.add('object');
+    shape.objectCount++;
+    Object.entries(value).forEach(([key, val]) => {
+      let property = shape.properties.get(key);
+      if (!property) {
+        property = createShape();
+        shape.properties.set(key, property);
+      }
+      addSample(property, val);
+    });
+  }
+};
+
+const toSchema = (shape: Shape): JsonObject => {
+  // No samples (e.g. the items of arrays that are always empty): anything goes
+  if (shape.count === 0) return {};
+
+  const types = new Set(shape.types);
+  if (types.has('number')) types.delete('integer'); // Integers are numbers too
+  const typeList = Array.from(types);
+
+  const schema: JsonObject = { type: typeList.length === 1 ? typeList[0] : typeList };
+
+  // An enum constrains every type, so only use one where the values are strings (or null)
+  const onlyStrings = typeList.every(t => t === 'string' || t === 'null');
+  if (types.has('string') && onlyStrings && shape.strings && shape.strings.size * 2 <= shape.stringCount) {
+    const values: JsonValue[] = Array.from(shape.strings.keys()).sort();
+    if (types.has('null')) values.push(null);
+    schema.enum = values;
+  }
+
+  if (types.has('number') || types.has('integer')) {
+    schema.minimum = shape.minimum;
+    schema.maximum = shape.maximum;
+  }
+
+  if (types.has('object')) {
+    const properties: JsonObject = {};
+    const required: string[] = [];
+    shape.properties.forEach((property, key) => {
+      properties[key] = toSchema(property);
+      // Required means present in every object sample
+      if (property.count === shape.objectCount) required.push(key);
+    });
+    schema.properties = properties;
+    if (required.length > 0) schema.required = required;
+  }
+
+  if (types.has('array') && shape.items && shape.items.count > 0) {
+    schema.items = toSchema(shape.items);
+  }
+
+  return schema;
+};
+
+// A schema that every sample satisfies, e.g. the item schema of an array of records
+export const inferSchema = (samples: JsonValue[]): JsonObject => {
+  const shape = createShape();
+  samples.forEach(sample => addSample(shape, sample));
+  return toSchema(shape);
+};
+
+// Complete schema document for a value (typically an array of records)
+export const generateSchema = (data: JsonValue, title?: string): JsonObject => {
+  const schema: JsonObject = { $schema: SCHEMA_DRAFT };
+  if (title) schema.title = title;
+  return { ...schema, ...inferSchema([data]) };
+};
+
+// Records looked at for field names; large levels are sampled evenly
+const FIELD_SAMPLE_SIZE = 1000;
+
+// Property names of the records at a level, most common first (for field autocomplete).
+// Only the records' own keys are counted, so this stays cheap enough to run on every edit.
+export const inferFieldNames = (level: JsonValue): string[] => {
+  if (typeof level !== 'object' || level === null) return [];
+  const records = Array.isArray(level) ? level : Object.values(level);
+  const step = Math.max(1, Math.ceil(records.length / FIELD_SAMPLE_SIZE));
+
+  const counts = new Map<string, number>();
+  for (let i = 0; i < records.length; i += step) {
+    const record = records[i];
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) continue;
+    Object.keys(record).forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  }
+
+  return Array.from(counts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .map(([key]) => key);
+};
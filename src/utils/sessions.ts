@@ -0,0 +1,84 @@
+import { invoke } from '@tauri-apps/api/core';
+import { FileStamp, JsonValue, OpenDocument } from '../types';
+import { DiffSummary, summarizeDiff } from './jsonDiff';
+import { parseDocumentText } from './formats';
+import { sameStamp } from './historyStore';
+
+// Open documents with unsaved edits are written to the app data directory (by the Rust side) this often
+export const AUTOSAVE_INTERVAL = 10_000;
+const SESSION_VERSION = 1;
+
+// The baseline is left out; a recovered document compares against its file instead
+export type SessionDocument = Omit<OpenDocument, 'savedData'>;
+
+interface StoredSession {
+  version: number;
+  savedAt: number;
+  document: SessionDocument;
+}
+
+// A session left behind by a crash or reload, with what restoring it would change
+export interface RecoveredSession {
+  savedAt: number;
+  document: SessionDocument;
+  origin: { data: JsonValue, stamp: FileStamp } | null; // The file as it is on disk now, if it still parses
+  originError: string | null;
+  summary: DiffSummary | null; // Restored state vs. the file, null without one
+}
+
+export const saveSession = (doc: OpenDocument): Promise<void> => {
+  const { savedData, ...document } = doc;
+  const session: StoredSession = { version: SESSION_VERSION, savedAt: Date.now(), document };
+  return invoke('save_session', { id: doc.id, contents: JSON.stringify(session) });
+};
+
+export const discardSession = (id: string): Promise<void> => invoke('discard_session', { id });
+
+const readOrigin = async (session: StoredSession): Promise<Pick<RecoveredSession, 'origin' | 'originError'>> => {
+  if (!session.document.filePath) return { origin: null, originError: null };
+  try {
+    const file = await invoke<{ text: string, size: number, modified: number | null } | null>('read_session_origin', { id: session.document.id });
+    if (!file) return { origin: null, originError: 'The file no longer exists.' };
+    const { data } = parseDocumentText(file.text, session.document.name);
+    return { origin: { data, stamp: { size: file.size, modified: file.modified } }, originError: null };
+  } catch (err: any) {
+    return { origin: null, originError: `The file could not be read: ${err?.message ?? err}` };
+  }
+};
+
+// Everything left over from the last run, newest first
+export const loadRecoveredSessions = async (): Promise<RecoveredSession[]> => {
+  const raw = await invoke<string[]>('load_sessions');
+  const sessions = raw.flatMap(text => {
+    try {
+      const session: StoredSession = JSON.parse(text);
+      return session.version === SESSION_VERSION ? [session] : [];
+    } catch {
+      return [];
+    }
+  });
+
+  const recovered = await Promise.all(sessions.map(async session => {
+    const { origin, originError } = await readOrigin(session);
+    return {
+      savedAt: session.savedAt,
+      document: session.document,
+      origin,
+      originError,
+      summary: origin ? summarizeDiff(origin.data, session.document.history.present) : null
+    };
+  }));
+  return recovered.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+// Back into an open document. The saved marker only survives if the file is still the version it was saved as.
+export const restoreSession = (session: RecoveredSession): OpenDocument => {
+  const { document, origin } = session;
+  const unchangedOnDisk = !!origin && sameStamp(origin.stamp, document.fileStamp);
+  return {
+    ...document,
+    savedData: unchangedOnDisk ? origin!.data : undefined,
+    fileStamp: unchangedOnDisk ? document.fileStamp : null,
+    history: unchangedOnDisk ? document.history : { ...document.history, savedIndex: null }
+  };
+};
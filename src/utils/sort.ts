@@ -0,0 +1,90 @@
+import { JsonValue } from '../types';
+
+export type SortComparator = 'auto' | 'numeric' | 'string' | 'natural' | 'date';
+export type SortDirection = 'asc' | 'desc';
+
+// Field that sorts by the card's own key (object levels) or index (arrays)
+export const KEY_FIELD = '@key';
+
+export interface SortKey {
+  field: string; // Dotted path inside each item, e.g. createdAt or address.city; '' is the item itself
+  direction: SortDirection;
+  comparator: SortComparator;
+}
+
+interface SortableItem {
+  name: string | number;
+  value: JsonValue;
+}
+
+const collator = new Intl.Collator(undefined, { sensitivity: 'base' });
+const naturalCollator = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true });
+
+// address.city, tags[0], tags.0
+const resolveField = (value: JsonValue, field: string): JsonValue | undefined => {
+  if (!field) return value;
+  let current: JsonValue | undefined = value;
+  for (const segment of field.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean)) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as any)[segment];
+  }
+  return current;
+};
+
+// Comparable form of a value, or undefined when it has none for this comparator (those always sort last)
+const sortValue = (value: JsonValue | undefined, comparator: SortComparator): number | string | undefined => {
+  if (value === undefined || value === null) return undefined;
+
+  switch (comparator) {
+    case 'numeric': {
+      const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      return Number.isNaN(n) ? undefined : n;
+    }
+    case 'date': {
+      // Numbers are taken as epoch milliseconds
+      const t = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+      return Number.isNaN(t) ? undefined : t;
+    }
+    default:
+      if (typeof value === 'object') return JSON.stringify(value);
+      return comparator === 'auto' && typeof value === 'number' ? value : String(value);
+  }
+};
+
+const compareValues = (a: number | string, b: number | string, comparator: SortComparator): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  // Mixed numbers and text under 'auto': numbers first
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return comparator === 'string' ? collator.compare(a, b) : naturalCollator.compare(a, b);
+};
+
+// Stable multi-key sort; later keys break ties of earlier ones
+export const sortItems = <T extends SortableItem>(items: T[], keys: SortKey[]): T[] => {
+  if (keys.length === 0) return items;
+
+  // Resolve every key once per item instead of once per comparison
+  const rows = items.map((item, index) => ({
+    item,
+    index,
+    values: keys.map(key => sortValue(key.field === KEY_FIELD ? item.name : resolveField(item.value, key.field), key.comparator))
+  }));
+
+  rows.sort((a, b) => {
+    for (let k = 0; k < keys.length; k++) {
+      const x = a.values[k], y = b.values[k];
+      if (x === undefined && y === undefined) continue;
+      if (x === undefined) return 1;
+      if (y === undefined) return -1;
+      const result = compareValues(x, y, keys[k].comparator);
+      if (result !== 0) return keys[k].direction === 'asc' ? result : -result;
+    }
+    return a.index - b.index;
+  });
+
+  return rows.map(row => row.item);
+};
+
+// Short label for the active sort, e.g. "price ↓, name ↑"
+export const describeSort = (keys: SortKey[]): string =>
+  keys.map(key => `${key.field === KEY_FIELD ? 'key' : key.field || 'value'} ${key.direction === 'asc' ? '↑' : '↓'}`).join(', ');
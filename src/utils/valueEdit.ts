@@ -0,0 +1,78 @@
+import { JsonObject, JsonValue } from '../types';
+import { inferCell } from './csv';
+
+export type EditResult = { ok: true, value: JsonValue } | { ok: false, error: string };
+
+// Text shown in an inline editor for a primitive value
+export const editText = (value: JsonValue | undefined): string => {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : String(value);
+};
+
+// Parse inline-edited text back into a value of the original's type.
+// Strings stay strings (even "42"); values without a type to keep (null, missing) are inferred like CSV cells.
+export const parseEditedValue = (original: JsonValue | undefined, text: string): EditResult => {
+  if (typeof original === 'string') return { ok: true, value: text };
+
+  if (typeof original === 'number') {
+    const trimmed = text.trim();
+    const n = Number(trimmed);
+    if (trimmed === '' || !Number.isFinite(n)) return { ok: false, error: 'Not a number' };
+    return { ok: true, value: n };
+  }
+
+  if (typeof original === 'boolean') {
+    const lower = text.trim().toLowerCase();
+    if (lower !== 'true' && lower !== 'false') return { ok: false, error: 'Expected true or false' };
+    return { ok: true, value: lower === 'true' };
+  }
+
+  return { ok: true, value: inferCell(text) };
+};
+
+export type ValueType = 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array';
+
+export const VALUE_TYPES: ValueType[] = ['string', 'number', 'boolean', 'null', 'object', 'array'];
+
+export const valueTypeOf = (value: JsonValue): ValueType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as ValueType;
+};
+
+// Empty value of a type, used for new keys and items
+export const defaultValueFor = (type: ValueType): JsonValue => {
+  switch (type) {
+    case 'string': return '';
+    case 'number': return 0;
+    case 'boolean': return false;
+    case 'null': return null;
+    case 'object': return {};
+    case 'array': return [];
+  }
+};
+
+// Convert a primitive to another primitive type, keeping what can be kept ("42" -> 42, 1 -> true)
+export const convertValue = (value: JsonValue, type: ValueType): JsonValue => {
+  const text = editText(value).trim();
+  switch (type) {
+    case 'string': return editText(value);
+    case 'number': {
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      const n = Number(text);
+      return text !== '' && Number.isFinite(n) ? n : 0;
+    }
+    case 'boolean':
+      if (typeof value === 'number') return value !== 0;
+      return text.toLowerCase() === 'true';
+    default:
+      return defaultValueFor(type);
+  }
+};
+
+// Rename a key in place; the other keys keep their order
+export const renameKey = (obj: JsonObject, oldKey: string, newKey: string): JsonObject => {
+  if (oldKey === newKey) return obj;
+  if (newKey in obj) throw new Error(`"${newKey}" already exists`);
+  return Object.fromEntries(Object.entries(obj).map(([key, value]) => [key === oldKey ? newKey : key, value]));
+};
@@ -0,0 +1,34 @@
+// Decodes and parses a document off the UI thread.
+// The main thread streams the raw bytes in as transferable chunks, then sends 'end'.
+import { parseDocumentText, ParseResult } from '../utils/formats';
+
+export type ParseWorkerRequest =
+  | { type: 'chunk', buffer: ArrayBuffer }
+  | { type: 'end', name: string };
+
+export type ParseWorkerResponse =
+  | { type: 'parsing' }
+  | { type: 'done', result: ParseResult }
+  | { type: 'invalid', text: string }; // Not parseable; the text goes to the raw editor
+
+const decoder = new TextDecoder();
+let text = '';
+
+const respond = (message: ParseWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<ParseWorkerRequest>) => {
+  const message = e.data;
+
+  if (message.type === 'chunk') {
+    text += decoder.decode(message.buffer, { stream: true });
+    return;
+  }
+
+  text += decoder.decode();
+  respond({ type: 'parsing' });
+  try {
+    respond({ type: 'done', result: parseDocumentText(text, message.name) });
+  } catch {
+    respond({ type: 'invalid', text });
+  }
+};